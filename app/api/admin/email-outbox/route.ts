@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { hasRole } from '@/lib/permissions';
+import { OUTBOX_COLUMNS, OUTBOX_TABLE, resendEmail } from '@/lib/outbox';
+import type { OutboxStatus } from '@/lib/types';
+
+const STATUSES: OutboxStatus[] = ['pending', 'sent', 'dead'];
+
+// GET - Most recent outbox emails with a status (?status=, default dead)
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can view the email outbox' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'dead') as OutboxStatus;
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from(OUTBOX_TABLE)
+      .select(OUTBOX_COLUMNS)
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error('Error fetching email outbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email outbox' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Resend an unsent email now, with a fresh set of retries
+export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can resend emails' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { id } = await request.json();
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+    const email = await resendEmail(supabase, id);
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email not found, already sent or being sent' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(email);
+  } catch (error: any) {
+    console.error('Error resending email:', error);
+    return NextResponse.json(
+      { error: 'Failed to resend email' },
+      { status: 500 }
+    );
+  }
+}
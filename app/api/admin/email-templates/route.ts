@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { hasRole } from '@/lib/permissions';
+import {
+  TEMPLATES_TABLE,
+  TEMPLATE_NAMES,
+  clearTemplateCache,
+  listTemplates,
+  unknownPlaceholders,
+} from '@/lib/email-templates';
+
+const EDITABLE = ['subject', 'heading', 'intro'] as const;
+
+// GET - Every email template with its defaults, placeholders and any override
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can view email templates' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    return NextResponse.json(await listTemplates(supabase));
+  } catch (error: any) {
+    console.error('Error fetching email templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Save a template's subject/heading/intro override; blank fields use the default
+export async function PUT(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can edit email templates' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const name = String(body.name || '');
+
+    if (!TEMPLATE_NAMES.includes(name)) {
+      return NextResponse.json(
+        { error: 'Unknown email template' },
+        { status: 400 }
+      );
+    }
+
+    const override: Record<string, string | null> = {};
+    const fields: Record<string, string> = {};
+    for (const key of EDITABLE) {
+      const value = typeof body[key] === 'string' ? body[key].trim() : '';
+      override[key] = value || null;
+      const unknown = unknownPlaceholders(name, value);
+      if (unknown.length > 0) {
+        fields[key] = `Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map((v) => `{{${v}}}`).join(', ')}`;
+      }
+    }
+
+    if (Object.keys(fields).length > 0) {
+      return NextResponse.json(
+        { error: 'Please correct the highlighted fields', fields },
+        { status: 422 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from(TEMPLATES_TABLE)
+      .upsert({ name, ...override, updated_by: user.email, updated_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    clearTemplateCache();
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error('Error saving email template:', error);
+    return NextResponse.json(
+      { error: 'Failed to save email template' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Drop a template's override, reverting it to the default (?name=)
+export async function DELETE(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can edit email templates' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const name = searchParams.get('name');
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase.from(TEMPLATES_TABLE).delete().eq('name', name);
+
+    if (error) throw error;
+
+    clearTemplateCache();
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error resetting email template:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset email template' },
+      { status: 500 }
+    );
+  }
+}
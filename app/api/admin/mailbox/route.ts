@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { hasRole } from '@/lib/permissions';
+import { clearMailbox, getMailboxMessage, listMailbox, readMailboxAttachment } from '@/lib/mailbox';
+
+// Captured mail contains user input: render it sandboxed (no scripts, no
+// access to this origin's cookies) and never let the browser sniff a type
+const CAPTURED_CONTENT_HEADERS = {
+  'Content-Security-Policy': 'sandbox',
+  'X-Content-Type-Options': 'nosniff',
+};
+
+// GET - Emails captured by MAIL_TRANSPORT=mailbox: the list, one message
+// rendered as HTML (?id=) or its plain-text part (?id=&format=text), or
+// one of its attachments (?id=&attachment=)
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can view the mailbox' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const file = searchParams.get('attachment');
+    const format = searchParams.get('format');
+
+    if (!id) {
+      const messages = await listMailbox();
+      return NextResponse.json(
+        messages.map((m) => ({
+          ...m,
+          url: `/api/admin/mailbox?id=${m.id}`,
+          attachments: m.attachments.map((a) => ({
+            ...a,
+            url: `/api/admin/mailbox?id=${m.id}&attachment=${encodeURIComponent(a.file)}`,
+          })),
+        }))
+      );
+    }
+
+    if (file) {
+      const found = await readMailboxAttachment(id, file);
+      if (!found) {
+        return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+      }
+      return new NextResponse(new Uint8Array(found.content), {
+        headers: {
+          ...CAPTURED_CONTENT_HEADERS,
+          'Content-Type': found.attachment.contentType,
+          'Content-Disposition': `attachment; filename="${found.attachment.filename.replace(/"/g, '')}"`,
+        },
+      });
+    }
+
+    const message = await getMailboxMessage(id);
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+    if (format === 'text') {
+      return new NextResponse(message.text ?? '', {
+        headers: { ...CAPTURED_CONTENT_HEADERS, 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+    return new NextResponse(message.html, {
+      headers: { ...CAPTURED_CONTENT_HEADERS, 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  } catch (error: any) {
+    console.error('Error reading mailbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to read mailbox' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Clear every captured email
+export async function DELETE() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can clear the mailbox' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const deleted = await clearMailbox();
+    return NextResponse.json({ success: true, deleted });
+  } catch (error: any) {
+    console.error('Error clearing mailbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear mailbox' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { hasRole } from '@/lib/permissions';
+import { getSnowflakeMetrics } from '@/lib/snowflake';
+
+// GET - Snowflake pool, query and lookup cache metrics for this server instance
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!hasRole(user, 'Admin')) {
+    return NextResponse.json(
+      { error: 'Only Admins can view Snowflake metrics' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json(getSnowflakeMetrics());
+}
@@ -1,23 +1,6 @@
 import NextAuth from 'next-auth';
-import AzureADProvider from 'next-auth/providers/azure-ad';
+import { authOptions } from '@/lib/auth';
 
-const handler = NextAuth({
-  providers: [
-    AzureADProvider({
-      clientId: process.env.AZURE_AD_CLIENT_ID!,
-      clientSecret: process.env.AZURE_AD_CLIENT_SECRET!,
-      tenantId: process.env.AZURE_AD_TENANT_ID!,
-    }),
-  ],
-  callbacks: {
-    async session({ session, token }) {
-      // Ensure email is always available in the session
-      if (token?.email && session.user) {
-        session.user.email = token.email;
-      }
-      return session;
-    },
-  },
-});
+const handler = NextAuth(authOptions);
 
 export { handler as GET, handler as POST };
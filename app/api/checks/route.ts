@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getChecks } from '@/lib/snowflake';
+import { getLookupProvider } from '@/lib/lookups';
+import { requireUser } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
     const search = searchParams.get('search') || '';
 
-    const checks = await getChecks(search);
+    const checks = await getLookupProvider().searchChecks(search);
 
-    return NextResponse.json(
-      checks.map((c) => ({
-        check_number: c.CHECK_NUMBER,
-        owner_number: c.ENTITY_CODE,
-        owner_name: c.ENTITY_NAME,
-        check_amount: c.CHECK_AMOUNT,
-        check_date: c.CHECK_DATE,
-      }))
-    );
+    return NextResponse.json(checks);
   } catch (error: any) {
     console.error('Error fetching checks:', error);
     return NextResponse.json(
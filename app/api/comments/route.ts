@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { AUDITED_TABLES } from '@/lib/audit';
+import { COMMENTS_TABLE, addComment } from '@/lib/comments';
+import { validateAttachments } from '@/lib/validation';
+
+// GET - Comment thread for a single request, oldest first
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const table = searchParams.get('table');
+    const id = searchParams.get('id');
+
+    if (!table || !AUDITED_TABLES.includes(table) || !id) {
+      return NextResponse.json(
+        { error: 'Missing or invalid table/id parameter' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from(COMMENTS_TABLE)
+      .select('*')
+      .eq('table_name', table)
+      .eq('record_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error('Error fetching comments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch comments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a comment and notify the submitter and prior commenters
+export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const body = await request.json();
+    const { table, record_id } = body;
+    const text = String(body.body || '').trim();
+
+    if (!table || !AUDITED_TABLES.includes(table) || !record_id) {
+      return NextResponse.json(
+        { error: 'Missing or invalid table/record_id' },
+        { status: 400 }
+      );
+    }
+
+    if (!text) {
+      return NextResponse.json(
+        { error: 'Comment cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    const attachments = validateAttachments(body.attachments);
+    if (attachments.error !== undefined) {
+      return NextResponse.json(
+        { error: 'Please correct the highlighted fields', fields: { attachments: attachments.error } },
+        { status: 422 }
+      );
+    }
+
+    const { data: record, error: recordError } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', record_id)
+      .single();
+
+    if (recordError || !record) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      );
+    }
+
+    if (record.deleted_at) {
+      return NextResponse.json(
+        { error: 'Entry is in the trash; restore it before commenting' },
+        { status: 409 }
+      );
+    }
+
+    const data = await addComment(supabase, table, record, user.email, text, attachments.value);
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to add comment' },
+      { status: 500 }
+    );
+  }
+}
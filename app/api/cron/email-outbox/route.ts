@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { OUTBOX_TABLE, processOutbox } from '@/lib/outbox';
+
+/**
+ * Cron job: Runs every 5 minutes.
+ * Sends queued emails from the outbox (see lib/outbox.ts), rescheduling
+ * failures with backoff and dead-lettering those out of attempts, then
+ * deletes sent emails older than EMAIL_OUTBOX_RETENTION_DAYS (default 30).
+ *
+ * Triggered by Vercel Cron Jobs (see vercel.json).
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const results = await processOutbox(supabase);
+
+    const retentionDays = parseInt(process.env.EMAIL_OUTBOX_RETENTION_DAYS || '30', 10);
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const { error: purgeError, count: purged } = await supabase
+      .from(OUTBOX_TABLE)
+      .delete({ count: 'exact' })
+      .eq('status', 'sent')
+      .lt('sent_at', cutoff);
+
+    if (purgeError) throw purgeError;
+
+    console.log('Email outbox run complete:', results, `${purged ?? 0} purged`);
+
+    return NextResponse.json({ success: true, ...results, purged: purged ?? 0 });
+  } catch (error: any) {
+    console.error('Email outbox error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process email outbox', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase';
 import ExcelJS from 'exceljs';
-import { sendMail } from '@/lib/email';
+import { enqueueEmails, storeAttachment } from '@/lib/outbox';
+import { renderEmail } from '@/lib/email-templates';
+import { getWorkflow, openStatuses } from '@/lib/workflow';
 
 const TABLE_NAME = 'interest_tracker';
 
@@ -16,7 +18,8 @@ export async function GET(request: NextRequest) {
     const { data: pendingItems, error } = await supabase
       .from(TABLE_NAME)
       .select('*')
-      .eq('completion_status', 'Pending')
+      .in('completion_status', openStatuses(TABLE_NAME))
+      .is('deleted_at', null)
       .order('request_date', { ascending: false });
 
     if (error) throw error;
@@ -95,10 +98,10 @@ export async function GET(request: NextRequest) {
       row.getCell('completion_status').dataValidation = {
         type: 'list',
         allowBlank: false,
-        formulae: ['"Complete,Request Invalidated"'],
+        formulae: [`"${getWorkflow(TABLE_NAME).statuses.join(',')}"`],
         showErrorMessage: true,
         errorTitle: 'Invalid Status',
-        error: 'Please select Complete or Request Invalidated.',
+        error: 'Please select a status from the list.',
       };
     });
 
@@ -138,7 +141,7 @@ export async function GET(request: NextRequest) {
     // Generate buffer
     const buffer = await workbook.xlsx.writeBuffer();
 
-    // Send email
+    // Queue the email for the outbox worker
     const now = new Date();
     const monthYear = now.toLocaleDateString('en-US', {
       month: 'long',
@@ -156,38 +159,37 @@ export async function GET(request: NextRequest) {
       }, { status: 500 });
     }
 
-    await sendMail({
-      to: recipients,
-      subject: `Pending Interest Tracker Report \u2014 ${monthYear}`,
-      html: `
-        <div style="font-family: Segoe UI, Arial, sans-serif; max-width: 600px;">
-          <h2 style="color: #0078d4; margin-bottom: 4px;">Pending Interest Tracker Report</h2>
-          <p style="color: #5a6275; margin-top: 0;">${monthYear}</p>
-          <p>There are currently <strong>${pendingItems.length}</strong> pending interest tracker entr${pendingItems.length > 1 ? 'ies' : 'y'}.</p>
-          <p>Please see the attached spreadsheet for full details.</p>
-          <hr style="border: none; border-top: 1px solid #d4dae3; margin: 20px 0;" />
-          <p style="font-size: 12px; color: #8c93a3;">
-            This is an automated report generated by the DO Request Forms App.
-          </p>
-        </div>
-      `,
-      attachments: [
-        {
-          filename,
-          content: Buffer.from(buffer as ArrayBuffer),
-          contentType:
-            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        },
-      ],
+    const email = await renderEmail(supabase, `${TABLE_NAME}.report`, {
+      month: monthYear,
+      count: pendingItems.length,
+      items: `${pendingItems.length} pending interest tracker entr${pendingItems.length > 1 ? 'ies' : 'y'}`,
     });
 
+    const attachment = await storeAttachment(
+      supabase,
+      'reports',
+      filename,
+      Buffer.from(buffer as ArrayBuffer),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+
+    const queued = await enqueueEmails(supabase, [
+      { kind: `${TABLE_NAME}.report`, to: recipients, ...email, attachments: [attachment] },
+    ]);
+    if (!queued) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to queue report email',
+      }, { status: 500 });
+    }
+
     console.log(
-      `Interest tracker report sent: ${pendingItems.length} items to ${recipients}`
+      `Interest tracker report queued: ${pendingItems.length} items to ${recipients}`
     );
 
     return NextResponse.json({
       success: true,
-      message: `Report sent with ${pendingItems.length} pending items`,
+      message: `Report queued with ${pendingItems.length} pending items`,
       recipients,
     });
   } catch (error: any) {
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase';
 import ExcelJS from 'exceljs';
-import { sendMail } from '@/lib/email';
+import { enqueueEmails, storeAttachment } from '@/lib/outbox';
+import { renderEmail } from '@/lib/email-templates';
+import { getWorkflow, openStatuses } from '@/lib/workflow';
 
 const TABLE_NAME = 'void_checks';
 
 /**
  * Cron job: Runs on the 18th of every month.
- * Fetches all Pending void check submissions, generates an Excel
- * spreadsheet, and emails it to configured recipients.
+ * Fetches all open void check submissions (any status not yet Complete
+ * or Request Invalidated), generates an Excel
+ * spreadsheet, and queues it in the email outbox for configured recipients.
  *
  * Triggered by Vercel Cron Jobs (see vercel.json).
  */
@@ -20,12 +23,13 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // 1. Fetch all Pending submissions from Supabase
+    // 1. Fetch all open submissions from Supabase
     const supabase = createServerSupabaseClient();
     const { data: pendingItems, error } = await supabase
       .from(TABLE_NAME)
       .select('*')
-      .eq('completion_status', 'Pending')
+      .in('completion_status', openStatuses(TABLE_NAME))
+      .is('deleted_at', null)
       .order('request_date', { ascending: false });
 
     if (error) throw error;
@@ -57,6 +61,7 @@ export async function GET(request: NextRequest) {
       { header: 'Request Source', key: 'request_source', width: 18 },
       { header: 'Notes', key: 'notes', width: 35 },
       { header: 'Completion Status', key: 'completion_status', width: 20 },
+      { header: 'Status Reason', key: 'status_reason', width: 30 },
       { header: 'Request Date', key: 'request_date', width: 20 },
       { header: 'Created By', key: 'created_by', width: 30 },
     ];
@@ -99,18 +104,19 @@ export async function GET(request: NextRequest) {
       row.getCell('check_amount').numFmt = '$#,##0.00';
       row.getCell('row_number').alignment = { horizontal: 'center' };
 
-      // Unlock Notes and Completion Status cells so they remain editable
+      // Unlock Notes, Completion Status and Status Reason cells so they remain editable
       row.getCell('notes').protection = { locked: false };
       row.getCell('completion_status').protection = { locked: false };
+      row.getCell('status_reason').protection = { locked: false };
 
       // Add dropdown for Completion Status
       row.getCell('completion_status').dataValidation = {
         type: 'list',
         allowBlank: false,
-        formulae: ['"Complete,Request Invalidated"'],
+        formulae: [`"${getWorkflow(TABLE_NAME).statuses.join(',')}"`],
         showErrorMessage: true,
         errorTitle: 'Invalid Status',
-        error: 'Please select Complete or Request Invalidated.',
+        error: 'Please select a status from the list.',
       };
     });
 
@@ -150,7 +156,7 @@ export async function GET(request: NextRequest) {
     // 3. Generate buffer
     const buffer = await workbook.xlsx.writeBuffer();
 
-    // 4. Send email
+    // 4. Queue the email for the outbox worker
     const now = new Date();
     const monthYear = now.toLocaleDateString('en-US', {
       month: 'long',
@@ -169,38 +175,37 @@ export async function GET(request: NextRequest) {
       }, { status: 500 });
     }
 
-    await sendMail({
-      to: recipients,
-      subject: `Pending Void Checks Report \u2014 ${monthYear}`,
-      html: `
-        <div style="font-family: Segoe UI, Arial, sans-serif; max-width: 600px;">
-          <h2 style="color: #0078d4; margin-bottom: 4px;">Pending Void Checks Report</h2>
-          <p style="color: #5a6275; margin-top: 0;">${monthYear}</p>
-          <p>There are currently <strong>${pendingItems.length}</strong> pending void check request${pendingItems.length > 1 ? 's' : ''}.</p>
-          <p>Please see the attached spreadsheet for full details.</p>
-          <hr style="border: none; border-top: 1px solid #d4dae3; margin: 20px 0;" />
-          <p style="font-size: 12px; color: #8c93a3;">
-            This is an automated report generated by the Void Checks Management App.
-          </p>
-        </div>
-      `,
-      attachments: [
-        {
-          filename,
-          content: Buffer.from(buffer as ArrayBuffer),
-          contentType:
-            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        },
-      ],
+    const email = await renderEmail(supabase, `${TABLE_NAME}.report`, {
+      month: monthYear,
+      count: pendingItems.length,
+      items: `${pendingItems.length} pending void check request${pendingItems.length > 1 ? 's' : ''}`,
     });
 
+    const attachment = await storeAttachment(
+      supabase,
+      'reports',
+      filename,
+      Buffer.from(buffer as ArrayBuffer),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+
+    const queued = await enqueueEmails(supabase, [
+      { kind: `${TABLE_NAME}.report`, to: recipients, ...email, attachments: [attachment] },
+    ]);
+    if (!queued) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to queue report email',
+      }, { status: 500 });
+    }
+
     console.log(
-      `Pending report sent: ${pendingItems.length} items to ${recipients}`
+      `Pending report queued: ${pendingItems.length} items to ${recipients}`
     );
 
     return NextResponse.json({
       success: true,
-      message: `Report sent with ${pendingItems.length} pending items`,
+      message: `Report queued with ${pendingItems.length} pending items`,
       recipients,
     });
   } catch (error: any) {
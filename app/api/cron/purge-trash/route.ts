@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { AUDITED_TABLES, diffRecords, recordEvents } from '@/lib/audit';
+
+const BUCKET = 'attachments';
+
+/**
+ * Cron job: Runs daily.
+ * Permanently deletes trashed requests older than TRASH_RETENTION_DAYS
+ * (default 30) from all trackers, along with their comments and their
+ * files in the attachments bucket.
+ *
+ * Triggered by Vercel Cron Jobs (see vercel.json).
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const retentionDays = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const purged: Record<string, number> = {};
+
+    for (const table of AUDITED_TABLES) {
+      const { data: expired, error } = await supabase
+        .from(table)
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .lt('deleted_at', cutoff);
+
+      if (error) throw error;
+
+      purged[table] = expired?.length || 0;
+      if (!expired || expired.length === 0) continue;
+
+      const ids = expired.map((r: any) => r.id);
+
+      const { data: comments, error: commentsError } = await supabase
+        .from('request_comments')
+        .select('attachments')
+        .eq('table_name', table)
+        .in('record_id', ids);
+
+      if (commentsError) throw commentsError;
+
+      // Remove files first so a failure leaves the rows in place for the next run
+      const paths = [
+        ...expired.flatMap((r: any) => r.attachments || []),
+        ...(comments || []).flatMap((c: any) => c.attachments || []),
+      ];
+      if (paths.length > 0) {
+        const { error: storageError } = await supabase.storage.from(BUCKET).remove(paths);
+        if (storageError) throw storageError;
+      }
+
+      const { error: commentsDeleteError } = await supabase
+        .from('request_comments')
+        .delete()
+        .eq('table_name', table)
+        .in('record_id', ids);
+
+      if (commentsDeleteError) throw commentsDeleteError;
+
+      const { error: deleteError } = await supabase
+        .from(table)
+        .delete()
+        .in('id', ids);
+
+      if (deleteError) throw deleteError;
+
+      await recordEvents(
+        supabase,
+        expired.map((r: any) => ({
+          table_name: table,
+          record_id: r.id,
+          action: 'purged' as const,
+          source: 'retention' as const,
+          actor: 'system',
+          changes: diffRecords(r, {}),
+        }))
+      );
+    }
+
+    console.log(`Trash purge complete (retention ${retentionDays} days):`, purged);
+
+    return NextResponse.json({ success: true, retentionDays, purged });
+  } catch (error: any) {
+    console.error('Trash purge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge trash', details: error.message },
+      { status: 500 }
+    );
+  }
+}
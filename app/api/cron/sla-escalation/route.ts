@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { renderEmail, type EmailContent } from '@/lib/email-templates';
+import { describeRecord, detailLink } from '@/lib/notifications';
+import { enqueueEmails, type QueuedEmail } from '@/lib/outbox';
+import { businessDaysBetween, isOverdue, slaDueDate, type EscalationLevel } from '@/lib/sla';
+import { TRACKER_TABLES, getTracker } from '@/lib/trackers';
+import { openStatuses } from '@/lib/workflow';
+
+const ESCALATIONS_TABLE = 'sla_escalations';
+
+interface Escalation {
+  table: string;
+  record: any;
+  level: EscalationLevel;
+  /** The assignee, or the SLA_MANAGER_EMAILS list */
+  to: string;
+  dueDate: Date;
+  daysOverdue: number;
+}
+
+function formatDate(d: Date | string) {
+  return new Date(d).toLocaleDateString('en-US', { timeZone: 'UTC' });
+}
+
+/** Digest table: one linked row per overdue request. */
+function digestTable(items: Escalation[]): EmailContent['table'] {
+  return {
+    columns: ['Request', 'Status', 'Assigned To', 'Requested', 'Due', 'Business Days Overdue'],
+    rows: items.map((e) => ({
+      href: detailLink(e.table, e.record.id),
+      cells: [
+        describeRecord(e.table, e.record),
+        e.record.completion_status,
+        e.record.assigned_to || 'Unassigned',
+        formatDate(e.record.request_date),
+        formatDate(e.dueDate),
+        String(e.daysOverdue),
+      ],
+    })),
+  };
+}
+
+/**
+ * Cron job: Runs daily.
+ * Finds open requests past their tracker's SLA (see lib/sla.ts) and
+ * queues a digest of their overdue requests for each assignee in the
+ * email outbox. Requests
+ * still open SLA_MANAGER_ESCALATION_DAYS (default 3) business days after
+ * the due date, or overdue with nobody assigned, go to the
+ * SLA_MANAGER_EMAILS list instead. Each level is sent once per request
+ * and recipient, recorded in sla_escalations, so nobody is re-emailed
+ * every day but a reassigned request reaches its new assignee.
+ *
+ * Triggered by Vercel Cron Jobs (see vercel.json).
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const now = new Date();
+    const managerDays = parseInt(process.env.SLA_MANAGER_ESCALATION_DAYS || '3', 10);
+    const managers = process.env.SLA_MANAGER_EMAILS || '';
+
+    // 1. Overdue open requests and the escalation each is due for
+    const pending: Escalation[] = [];
+    let skippedManagers = false;
+    for (const table of TRACKER_TABLES) {
+      const tracker = getTracker(table);
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .in('completion_status', openStatuses(table))
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      const overdue = (data || []).filter((r) => isOverdue(tracker, r, now));
+      if (overdue.length === 0) continue;
+
+      const { data: sent, error: sentError } = await supabase
+        .from(ESCALATIONS_TABLE)
+        .select('record_id, level, recipient')
+        .eq('table_name', table)
+        .in('record_id', overdue.map((r) => r.id));
+
+      if (sentError) throw sentError;
+
+      const alreadySent = new Set((sent || []).map((s) => `${s.record_id}:${s.level}:${s.recipient}`));
+      for (const record of overdue) {
+        const dueDate = slaDueDate(tracker, record);
+        const daysOverdue = businessDaysBetween(dueDate, now);
+        const level: EscalationLevel = !record.assigned_to || daysOverdue >= managerDays ? 'manager' : 'assignee';
+        const to = level === 'assignee' ? record.assigned_to.toLowerCase() : managers;
+        if (!to) {
+          skippedManagers = true;
+          continue;
+        }
+        if (!alreadySent.has(`${record.id}:${level}:${to}`)) {
+          pending.push({ table, record, level, to, dueDate, daysOverdue });
+        }
+      }
+    }
+    if (skippedManagers) {
+      console.error('No SLA_MANAGER_EMAILS configured; skipping manager escalations');
+    }
+
+    // 2. One digest per recipient: each assignee, then the manager list
+    const digests = new Map<string, { to: string; level: EscalationLevel; items: Escalation[] }>();
+    for (const e of pending) {
+      const key = `${e.level}:${e.to}`;
+      if (!digests.has(key)) digests.set(key, { to: e.to, level: e.level, items: [] });
+      digests.get(key)!.items.push(e);
+    }
+
+    // 3. Queue every digest in the outbox, then record what was escalated.
+    // If queueing fails nothing is recorded, so the next run retries.
+    const emails: QueuedEmail[] = [];
+    const queued: { to: string; items: Escalation[] }[] = [];
+    for (const { to, level, items } of digests.values()) {
+      try {
+        const email = await renderEmail(
+          supabase,
+          `sla.${level}`,
+          { count: items.length, manager_days: managerDays },
+          { table: digestTable(items) }
+        );
+        emails.push({ kind: `sla.${level}`, to, ...email });
+        queued.push({ to, items });
+      } catch (emailError: any) {
+        console.error(`Failed to render SLA escalation to ${to}:`, emailError);
+      }
+    }
+
+    const escalated: Record<EscalationLevel, number> = { assignee: 0, manager: 0 };
+    if (emails.length > 0 && (await enqueueEmails(supabase, emails))) {
+      const { error: insertError } = await supabase.from(ESCALATIONS_TABLE).insert(
+        queued.flatMap(({ to, items }) =>
+          items.map((e) => ({
+            table_name: e.table,
+            record_id: e.record.id,
+            level: e.level,
+            recipient: to,
+          }))
+        )
+      );
+      if (insertError) throw insertError;
+
+      for (const { items } of queued) {
+        for (const e of items) escalated[e.level]++;
+      }
+    }
+
+    console.log('SLA escalation complete:', escalated);
+
+    return NextResponse.json({ success: true, escalated });
+  } catch (error: any) {
+    console.error('SLA escalation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to escalate overdue requests', details: error.message },
+      { status: 500 }
+    );
+  }
+}
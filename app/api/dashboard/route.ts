@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { TRACKER_TABLES, getTracker } from '@/lib/trackers';
+import { getWorkflow, type WorkflowTable } from '@/lib/workflow';
+import { metricsSince, trackerMetrics, type MetricsTotals } from '@/lib/metrics';
+
+/** A tracker's totals (Trash excluded), aggregated by the tracker_metrics database function. */
+async function fetchTotals(supabase: SupabaseClient, table: WorkflowTable, since: Date): Promise<MetricsTotals> {
+  const workflow = getWorkflow(table);
+  const { data, error } = await supabase.rpc('tracker_metrics', {
+    p_table: table,
+    p_initial: workflow.initial,
+    p_sign_off: workflow.signOff,
+    p_since: since.toISOString(),
+  });
+
+  if (error) throw error;
+  return data as MetricsTotals;
+}
+
+// GET - Queue metrics for every tracker: status counts, Pending aging, turnaround and throughput
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const now = Date.now();
+    const since = metricsSince(now);
+
+    const metrics = await Promise.all(
+      TRACKER_TABLES.map(async (table) => {
+        const totals = await fetchTotals(supabase, table, since);
+        return trackerMetrics(getTracker(table), totals, now);
+      })
+    );
+
+    return NextResponse.json(metrics);
+  } catch (error: any) {
+    console.error('Error fetching dashboard metrics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dashboard metrics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
 
 const BUCKET = 'attachments';
 
 export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
     const path = searchParams.get('path');
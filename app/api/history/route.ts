@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { AUDITED_TABLES } from '@/lib/audit';
+
+// GET - Change history for a single request, newest first
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const table = searchParams.get('table');
+    const id = searchParams.get('id');
+
+    if (!table || !AUDITED_TABLES.includes(table) || !id) {
+      return NextResponse.json(
+        { error: 'Missing or invalid table/id parameter' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('request_events')
+      .select('*')
+      .eq('table_name', table)
+      .eq('record_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error('Error fetching request history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { getLookupProvider } from '@/lib/lookups';
+import { getWorkflow, type WorkflowTable } from '@/lib/workflow';
+import type { OwnerProfile, StatusTotal } from '@/lib/types';
+
+/** Count and sum a tracker's rows for each status in its workflow. */
+function totalsByStatus(table: WorkflowTable, rows: any[], amountColumn: string): StatusTotal[] {
+  return getWorkflow(table).statuses.map((status) => {
+    const matching = rows.filter((r) => r.completion_status === status);
+    return {
+      status,
+      count: matching.length,
+      amount: Math.round(matching.reduce((sum, r) => sum + (Number(r[amountColumn]) || 0), 0) * 100) / 100,
+    };
+  });
+}
+
+// GET - All void checks and interest entries for an owner, with their outstanding checks
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const ownerNumber = (searchParams.get('owner') || '').trim();
+
+    if (!ownerNumber) {
+      return NextResponse.json(
+        { error: 'owner is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const [voidChecks, interestEntries, outstanding] = await Promise.all([
+      supabase
+        .from('void_checks')
+        .select('*')
+        .eq('owner_number', ownerNumber)
+        .is('deleted_at', null)
+        .order('request_date', { ascending: false }),
+      supabase
+        .from('interest_tracker')
+        .select('*')
+        .eq('owner_number', ownerNumber)
+        .is('deleted_at', null)
+        .order('request_date', { ascending: false }),
+      // The lookup source being down shouldn't hide the owner's requests
+      getLookupProvider().ownerChecks(ownerNumber).then(
+        (checks) => ({ checks, error: undefined }),
+        (error: any) => {
+          console.error('Error fetching outstanding checks:', error);
+          return { checks: [], error: error?.message || 'Failed to fetch outstanding checks' };
+        }
+      ),
+    ]);
+
+    if (voidChecks.error) throw voidChecks.error;
+    if (interestEntries.error) throw interestEntries.error;
+
+    const voids = voidChecks.data || [];
+    const interest = interestEntries.data || [];
+    const named = [...voids, ...interest].find((r) => r.owner_name);
+
+    const profile: OwnerProfile = {
+      owner_number: ownerNumber,
+      owner_name: named?.owner_name || outstanding.checks[0]?.owner_name || '',
+      void_checks: voids,
+      interest_entries: interest,
+      totals: {
+        void_checks: totalsByStatus('void_checks', voids, 'check_amount'),
+        interest_tracker: totalsByStatus('interest_tracker', interest, 'amount_due'),
+      },
+      outstanding_checks: outstanding.checks,
+      outstanding_error: outstanding.error,
+    };
+
+    return NextResponse.json(profile);
+  } catch (error: any) {
+    console.error('Error fetching owner profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch owner profile' },
+      { status: 500 }
+    );
+  }
+}
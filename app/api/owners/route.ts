@@ -1,19 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getOwners } from '@/lib/snowflake';
+import { getLookupProvider } from '@/lib/lookups';
+import { requireUser } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(req.url);
     const search = searchParams.get('search') || '';
 
-    const results = await getOwners(search);
-
-    const mapped = results.map((r) => ({
-      owner_number: r.OWNER_CODE,
-      owner_name: r.OWNER_NAME,
-    }));
+    const owners = await getLookupProvider().searchOwners(search);
 
-    return NextResponse.json(mapped);
+    return NextResponse.json(owners);
   } catch (error: any) {
     console.error('Error fetching owners:', error);
     return NextResponse.json(
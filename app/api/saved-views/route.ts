@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { TRACKER_TABLES, getTracker } from '@/lib/trackers';
+
+const SAVED_VIEWS_TABLE = 'saved_views';
+
+const APPS: string[] = TRACKER_TABLES.map((table) => getTracker(table).app);
+
+// GET - The signed-in user's saved views for one tracker, by name
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const app = searchParams.get('app');
+
+    if (!app || !APPS.includes(app)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid app parameter' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from(SAVED_VIEWS_TABLE)
+      .select('*')
+      .eq('owner', user.email)
+      .eq('app', app)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved views' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save the current filters under a name (replaces a view with the same name)
+export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json();
+    const name = String(body.name || '').trim();
+    const query = String(body.query || '');
+
+    if (!body.app || !APPS.includes(body.app)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid app' },
+        { status: 400 }
+      );
+    }
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'View name must be 1 to 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from(SAVED_VIEWS_TABLE)
+      .upsert(
+        { owner: user.email, app: body.app, name, query, created_at: new Date().toISOString() },
+        { onConflict: 'owner,app,name' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error: any) {
+    console.error('Error saving view:', error);
+    return NextResponse.json(
+      { error: 'Failed to save view' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove one of the signed-in user's saved views
+export async function DELETE(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id } = await request.json();
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Missing view ID' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    // Scoped to the owner so one user cannot delete another's views
+    const { error } = await supabase
+      .from(SAVED_VIEWS_TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('owner', user.email);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting saved view:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete view' },
+      { status: 500 }
+    );
+  }
+}
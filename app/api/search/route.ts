@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { ilikeAny } from '@/lib/tracker-route';
+import { TRACKER_TABLES, getTracker } from '@/lib/trackers';
+import type { SearchGroup } from '@/lib/types';
+
+const MIN_QUERY_LENGTH = 2;
+const RESULTS_PER_TRACKER = 8;
+
+// GET - Search every tracker's identifying columns and notes, grouped by tracker
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const q = (searchParams.get('q') || '').trim();
+
+    if (q.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search must be at least ${MIN_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const groups: SearchGroup[] = await Promise.all(
+      TRACKER_TABLES.map(async (table) => {
+        const tracker = getTracker(table);
+        const { data, error, count } = await supabase
+          .from(table)
+          .select('*', { count: 'exact' })
+          .is('deleted_at', null)
+          .or(ilikeAny([...tracker.searchColumns, 'notes'], q))
+          .order('request_date', { ascending: false })
+          .limit(RESULTS_PER_TRACKER);
+
+        if (error) throw error;
+
+        return {
+          table,
+          app: tracker.app,
+          title: tracker.title,
+          total: count ?? 0,
+          results: (data || []).map((row) => ({
+            id: row.id,
+            label: tracker.describe(row),
+            status: row.completion_status,
+            request_date: row.request_date,
+            notes: row.notes || '',
+          })),
+        };
+      })
+    );
+
+    return NextResponse.json(groups.filter((g) => g.total > 0));
+  } catch (error: any) {
+    console.error('Error searching trackers:', error);
+    return NextResponse.json(
+      { error: 'Failed to search' },
+      { status: 500 }
+    );
+  }
+}
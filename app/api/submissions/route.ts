@@ -1,237 +1,101 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabaseClient } from '@/lib/supabase';
-import { sendMail } from '@/lib/email';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { createTrackerRoutes, type CreateContext } from '@/lib/tracker-route';
+import { TRACKERS } from '@/lib/trackers';
+import type { DuplicateMatch } from '@/lib/types';
 
 const TABLE_NAME = 'void_checks';
 
-// GET - Fetch all submissions
-export async function GET() {
-  try {
-    const supabase = createServerSupabaseClient();
-
-    const { data, error } = await supabase
+/**
+ * Find existing (non-trashed) void checks that look like the new one.
+ * Exact: same check #, owner # and amount. Near: same check # with a
+ * different owner or amount, or the same owner and amount on another check.
+ */
+async function findDuplicates(
+  supabase: SupabaseClient,
+  submission: { check_number: string; owner_number: string; check_amount: number }
+): Promise<DuplicateMatch[]> {
+  const checkNumber = String(submission.check_number).trim();
+  const ownerNumber = String(submission.owner_number).trim();
+  const amount = submission.check_amount;
+
+  const [byCheck, byOwner] = await Promise.all([
+    supabase
       .from(TABLE_NAME)
       .select('*')
-      .order('request_date', { ascending: false });
-
-    if (error) throw error;
-
-    return NextResponse.json(data);
-  } catch (error: any) {
-    console.error('Error fetching submissions:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch submissions' },
-      { status: 500 }
-    );
-  }
-}
-
-// POST - Create a new submission
-export async function POST(request: NextRequest) {
-  try {
-    const supabase = createServerSupabaseClient();
-    const body = await request.json();
-
-    const submission = {
-      check_number: body.check_number,
-      check_amount: parseFloat(body.check_amount),
-      owner_number: body.owner_number,
-      owner_name: body.owner_name || '',
-      check_date: body.check_date,
-      request_source: body.request_source || '',
-      notes: body.notes || '',
-      attachments: body.attachments || [],
-      request_date: new Date().toISOString(),
-      completion_status: 'Pending',
-      sign_off_date: null,
-      created_by: body.created_by || 'Unknown User',
-    };
-
-    const { data, error } = await supabase
+      .eq('check_number', checkNumber)
+      .is('deleted_at', null),
+    supabase
       .from(TABLE_NAME)
-      .insert([submission])
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    // Send confirmation email to submitter
-    try {
-      const formatDate = (d: string) => {
-        if (!d) return '\u2014';
-        const date = new Date(d);
-        return date.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
-      };
-
-      const formatCurrency = (amount: number) =>
-        new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-
-      // Download actual files from Supabase to attach to the email
-      const emailAttachments: { filename: string; content: Buffer }[] = [];
-      for (const path of submission.attachments) {
-        try {
-          const { data: fileData, error: dlError } = await supabase.storage
-            .from('attachments')
-            .download(path);
-          if (dlError || !fileData) continue;
-          const rawName = path.split('/').pop() || path;
-          const cleanName = rawName.replace(/^\d+-/, '');
-          emailAttachments.push({
-            filename: cleanName,
-            content: Buffer.from(await fileData.arrayBuffer()),
-          });
-        } catch {
-          // skip files that fail to download
-        }
-      }
-
-      const td = 'padding:6px 10px;border:1px solid #d4dae3;font-size:13px;';
-      const th = `${td}font-weight:600;background:#f7f8fa;white-space:nowrap;`;
-
-      const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://do-request-forms.vercel.app';
-      const detailLink = `${appUrl}?app=void-checks&id=${data.id}`;
-
-      await sendMail({
-        to: submission.created_by,
-        subject: `Voided Check #${submission.check_number}`,
-        html: `
-          <div style="font-family: Segoe UI, Arial, sans-serif; max-width: 480px;">
-            <h2 style="color: #0078d4; margin-bottom: 4px; font-size: 18px;">Void Check Submitted</h2>
-            <p style="color: #5a6275; margin-top: 0; font-size: 13px;">Your void check request has been submitted successfully.</p>
-            <table style="border-collapse: collapse; margin: 16px 0;">
-              <tr><td style="${th}">Check Number</td><td style="${td}">${submission.check_number}</td></tr>
-              <tr><td style="${th}">Check Amount</td><td style="${td}">${formatCurrency(submission.check_amount)}</td></tr>
-              <tr><td style="${th}">Owner</td><td style="${td}">${submission.owner_name ? `${submission.owner_number} \u2013 ${submission.owner_name}` : submission.owner_number}</td></tr>
-              <tr><td style="${th}">Check Date</td><td style="${td}">${formatDate(submission.check_date)}</td></tr>
-              <tr><td style="${th}">Request Source</td><td style="${td}">${submission.request_source || '\u2014'}</td></tr>
-              <tr><td style="${th}">Request Date</td><td style="${td}">${formatDate(submission.request_date)}</td></tr>
-              <tr><td style="${th}">Notes</td><td style="${td}">${submission.notes || '\u2014'}</td></tr>
-            </table>
-            <p><a href="${detailLink}" style="display: inline-block; padding: 10px 20px; background: #0078d4; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 13px; font-weight: 600; font-family: Segoe UI, Arial, sans-serif;">View Entry</a></p>
-            <hr style="border: none; border-top: 1px solid #d4dae3; margin: 16px 0;" />
-            <p style="font-size: 11px; color: #8c93a3;">
-              This is an automated confirmation from the DO Request Forms App.
-            </p>
-          </div>
-        `,
-        attachments: emailAttachments.length > 0 ? emailAttachments : undefined,
-      });
-    } catch (emailError: any) {
-      console.error('Failed to send confirmation email:', emailError);
-    }
-
-    return NextResponse.json(data, { status: 201 });
-  } catch (error: any) {
-    console.error('Error creating submission:', error);
-    return NextResponse.json(
-      { error: 'Failed to create submission' },
-      { status: 500 }
-    );
+      .select('*')
+      .eq('owner_number', ownerNumber)
+      .gte('check_amount', amount - 0.005)
+      .lte('check_amount', amount + 0.005)
+      .is('deleted_at', null),
+  ]);
+
+  if (byCheck.error) throw byCheck.error;
+  if (byOwner.error) throw byOwner.error;
+
+  const candidates = new Map<string, any>();
+  for (const record of [...(byCheck.data || []), ...(byOwner.data || [])]) {
+    candidates.set(record.id, record);
   }
-}
 
-// PATCH - Update a submission (status change, full edit, or bulk status)
-export async function PATCH(request: NextRequest) {
-  try {
-    const supabase = createServerSupabaseClient();
-    const body = await request.json();
+  const matches: DuplicateMatch[] = [...candidates.values()].map((record) => {
+    const sameCheck = String(record.check_number).trim() === checkNumber;
+    const sameOwner = String(record.owner_number).trim() === ownerNumber;
+    const sameAmount = Math.abs(Number(record.check_amount) - amount) < 0.01;
 
-    // Bulk status update
-    if (body.ids && Array.isArray(body.ids) && body.completion_status) {
-      const updatePayload: any = {
-        completion_status: body.completion_status,
-        sign_off_date:
-          body.completion_status === 'Complete'
-            ? new Date().toISOString()
-            : null,
-      };
-
-      const { data, error } = await supabase
-        .from(TABLE_NAME)
-        .update(updatePayload)
-        .in('id', body.ids)
-        .select();
-
-      if (error) throw error;
-      return NextResponse.json(data);
-    }
-
-    // Single update
-    const { id } = body;
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Missing id' },
-        { status: 400 }
-      );
+    if (sameCheck && sameOwner && sameAmount) {
+      return { match: 'exact', reason: 'Same check #, owner # and amount', record };
     }
-
-    const updatePayload: any = {};
-
-    // Full edit fields
-    if (body.check_number !== undefined) updatePayload.check_number = body.check_number;
-    if (body.check_amount !== undefined) updatePayload.check_amount = parseFloat(body.check_amount);
-    if (body.owner_number !== undefined) updatePayload.owner_number = body.owner_number;
-    if (body.owner_name !== undefined) updatePayload.owner_name = body.owner_name;
-    if (body.check_date !== undefined) updatePayload.check_date = body.check_date;
-    if (body.request_source !== undefined) updatePayload.request_source = body.request_source;
-    if (body.notes !== undefined) updatePayload.notes = body.notes;
-    if (body.attachments !== undefined) updatePayload.attachments = body.attachments;
-
-    // Status change with auto sign-off date
-    if (body.completion_status) {
-      updatePayload.completion_status = body.completion_status;
-      updatePayload.sign_off_date =
-        body.completion_status === 'Complete'
-          ? new Date().toISOString()
-          : null;
+    if (sameCheck) {
+      const differs = [!sameOwner && 'owner', !sameAmount && 'amount'].filter(Boolean).join(' and ');
+      return { match: 'near', reason: `Same check # with a different ${differs}`, record };
     }
+    return { match: 'near', reason: 'Same owner # and amount on a different check', record };
+  });
 
-    const { data, error } = await supabase
-      .from(TABLE_NAME)
-      .update(updatePayload)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    return NextResponse.json(data);
-  } catch (error: any) {
-    console.error('Error updating submission:', error);
-    return NextResponse.json(
-      { error: 'Failed to update submission' },
-      { status: 500 }
-    );
-  }
+  return matches.sort((a, b) => (a.match === b.match ? 0 : a.match === 'exact' ? -1 : 1));
 }
 
-// DELETE - Remove a submission
-export async function DELETE(request: NextRequest) {
-  try {
-    const supabase = createServerSupabaseClient();
-    const body = await request.json();
-    const { id } = body;
-
-    if (!id) {
-      return NextResponse.json(
-        { error: 'Missing id' },
-        { status: 400 }
-      );
+/**
+ * Duplicate detection — a match blocks the insert unless the user
+ * explicitly overrides it with a reason, which is stored on the row.
+ */
+async function checkDuplicates({ supabase, body, record }: CreateContext) {
+  record.duplicate_override_reason = null;
+
+  if (body.override_duplicate) {
+    const overrideReason = String(body.override_reason || '').trim();
+    if (!overrideReason) {
+      return {
+        response: NextResponse.json(
+          { error: 'A reason is required to submit a possible duplicate' },
+          { status: 400 }
+        ),
+      };
     }
+    record.duplicate_override_reason = overrideReason;
+    return { reason: `Submitted despite possible duplicate: ${overrideReason}` };
+  }
 
-    const { error } = await supabase
-      .from(TABLE_NAME)
-      .delete()
-      .eq('id', id);
-
-    if (error) throw error;
-
-    return NextResponse.json({ success: true });
-  } catch (error: any) {
-    console.error('Error deleting submission:', error);
-    return NextResponse.json(
-      { error: 'Failed to delete submission' },
-      { status: 500 }
-    );
+  const duplicates = await findDuplicates(supabase, {
+    check_number: record.check_number,
+    owner_number: record.owner_number,
+    check_amount: record.check_amount,
+  });
+  if (duplicates.length > 0) {
+    return {
+      response: NextResponse.json(
+        { error: 'Possible duplicate submission', duplicates },
+        { status: 409 }
+      ),
+    };
   }
 }
+
+export const { GET, POST, PATCH, DELETE } = createTrackerRoutes(TRACKERS.void_checks, {
+  beforeCreate: checkDuplicates,
+});
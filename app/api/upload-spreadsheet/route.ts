@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase';
 import ExcelJS from 'exceljs';
+import { requireUser } from '@/lib/auth';
+import { canChangeStatus } from '@/lib/permissions';
+import { diffRecords, recordEvents } from '@/lib/audit';
+import { INVALIDATION_REASONS, getWorkflow, validateTransition } from '@/lib/workflow';
+import { notifyInvalidated, sendTrackerEmail } from '@/lib/notifications';
+import { COMMENTS_TABLE, addComment } from '@/lib/comments';
 
 const TABLE_NAME = 'void_checks';
-const VALID_STATUSES = ['Pending', 'Complete', 'Request Invalidated'];
+const WORKFLOW = getWorkflow(TABLE_NAME);
 
 interface ParsedRow {
   rowNumber: number;
@@ -11,6 +17,7 @@ interface ParsedRow {
   checkNumber: string | null;
   notes: string | undefined;
   status: string | undefined;
+  reason: string | undefined;
 }
 
 interface Change {
@@ -22,7 +29,8 @@ interface Update {
   row: number;
   id: string;
   checkNumber: string;
-  changes: { notes?: Change; completion_status?: Change };
+  changes: { comment?: Change; completion_status?: Change };
+  reason?: string;
 }
 
 interface Warning {
@@ -32,6 +40,16 @@ interface Warning {
 }
 
 export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  if (!canChangeStatus(user)) {
+    return NextResponse.json(
+      { error: 'Only Processors can upload status spreadsheets' },
+      { status: 403 }
+    );
+  }
+
   try {
     const supabase = createServerSupabaseClient();
     const formData = await request.formData();
@@ -64,6 +82,7 @@ export async function POST(request: NextRequest) {
     const checkCol = headers['check #'] || headers['check_number'] || headers['check number'];
     const notesCol = headers['notes'];
     const statusCol = headers['completion status'] || headers['completion_status'];
+    const reasonCol = headers['status reason'] || headers['status_reason'];
 
     if (!idCol && !checkCol) {
       return NextResponse.json(
@@ -87,11 +106,12 @@ export async function POST(request: NextRequest) {
       const checkNumber = checkCol ? String(row.getCell(checkCol).value || '').trim() : null;
       const notes = notesCol ? String(row.getCell(notesCol).value || '').trim() : undefined;
       const status = statusCol ? String(row.getCell(statusCol).value || '').trim() : undefined;
+      const reason = reasonCol ? String(row.getCell(reasonCol).value || '').trim() : undefined;
 
       // Skip completely empty rows
       if (!id && !checkNumber && !notes && !status) return;
 
-      parsedRows.push({ rowNumber, id, checkNumber, notes, status });
+      parsedRows.push({ rowNumber, id, checkNumber, notes, status, reason });
     });
 
     if (parsedRows.length === 0) {
@@ -101,10 +121,22 @@ export async function POST(request: NextRequest) {
     // Fetch current DB records
     const { data: dbRecords, error: dbError } = await supabase
       .from(TABLE_NAME)
-      .select('id, check_number, notes, completion_status');
+      .select('*')
+      .is('deleted_at', null);
 
     if (dbError) throw dbError;
 
+    // Existing comment bodies per record, so re-uploading the same sheet
+    // doesn't post the same note to the thread twice
+    const { data: dbComments, error: commentsError } = await supabase
+      .from(COMMENTS_TABLE)
+      .select('record_id, body')
+      .eq('table_name', TABLE_NAME);
+
+    if (commentsError) throw commentsError;
+
+    const commentKeys = new Set(dbComments!.map((c: any) => `${c.record_id}:${c.body}`));
+
     // Build lookup maps
     const dbById = new Map(dbRecords!.map((r: any) => [r.id, r]));
     const dbByCheckNumber = new Map<string, any[]>();
@@ -152,20 +184,30 @@ export async function POST(request: NextRequest) {
 
       if (!matchedRecord) continue;
 
-      // Validate status
-      if (row.status && !VALID_STATUSES.includes(row.status)) {
+      // Validate the status change against the workflow
+      const transitionError = row.status
+        ? validateTransition(TABLE_NAME, matchedRecord.completion_status, row.status, row.reason)
+        : null;
+      if (transitionError) {
         warnings.push({
           row: row.rowNumber,
           checkNumber: matchedRecord.check_number,
-          message: `Invalid status "${row.status}". Must be: ${VALID_STATUSES.join(', ')}`,
+          message: row.reason === undefined && transitionError.startsWith('A reason')
+            ? `${transitionError} — add a "Status Reason" column`
+            : transitionError,
         });
         continue;
       }
 
-      // Compute diff (only Notes and Completion Status)
-      const changes: { notes?: Change; completion_status?: Change } = {};
-      if (row.notes !== undefined && row.notes !== (matchedRecord.notes || '')) {
-        changes.notes = { from: matchedRecord.notes || '', to: row.notes };
+      // Compute diff (only Notes and Completion Status). Edited notes are
+      // posted to the comment thread rather than overwriting the submitter's notes.
+      const changes: { comment?: Change; completion_status?: Change } = {};
+      if (
+        row.notes &&
+        row.notes !== (matchedRecord.notes || '') &&
+        !commentKeys.has(`${matchedRecord.id}:${row.notes}`)
+      ) {
+        changes.comment = { from: matchedRecord.notes || '', to: row.notes };
       }
       if (row.status && row.status !== matchedRecord.completion_status) {
         changes.completion_status = { from: matchedRecord.completion_status, to: row.status };
@@ -181,6 +223,7 @@ export async function POST(request: NextRequest) {
         id: matchedRecord.id,
         checkNumber: matchedRecord.check_number,
         changes,
+        reason: changes.completion_status ? row.reason || undefined : undefined,
       });
     }
 
@@ -192,25 +235,81 @@ export async function POST(request: NextRequest) {
     // Apply mode — write updates to DB
     const applied: { id: string; checkNumber: string }[] = [];
     const errors: { id: string; error: string }[] = [];
+    const events: Parameters<typeof recordEvents>[1] = [];
 
     for (const upd of updates) {
-      const payload: any = {};
-      if (upd.changes.notes) payload.notes = upd.changes.notes.to;
+      let error: { message: string } | null = null;
+      let updated: any = null;
+
       if (upd.changes.completion_status) {
-        payload.completion_status = upd.changes.completion_status.to;
-        payload.sign_off_date =
-          upd.changes.completion_status.to === 'Complete' ? new Date().toISOString() : null;
+        // The Status Reason cell maps onto the invalidation picklist when it
+        // matches an entry, otherwise it is recorded as "Other" with the text as the note
+        const isInvalidating = upd.changes.completion_status.to === WORKFLOW.invalidated;
+        const listedReason = INVALIDATION_REASONS.find(
+          (reason) => reason.toLowerCase() === (upd.reason || '').toLowerCase()
+        );
+        const payload: any = {
+          updated_by: user.email,
+          completion_status: upd.changes.completion_status.to,
+          sign_off_date:
+            upd.changes.completion_status.to === WORKFLOW.signOff ? new Date().toISOString() : null,
+          invalidation_reason: isInvalidating ? listedReason || 'Other' : null,
+          invalidation_note: isInvalidating && !listedReason ? upd.reason || null : null,
+        };
+
+        ({ data: updated, error } = await supabase
+          .from(TABLE_NAME)
+          .update(payload)
+          .eq('id', upd.id)
+          .select()
+          .single());
+
+        if (!error && isInvalidating) {
+          await notifyInvalidated(TABLE_NAME, updated, user.email, supabase);
+        }
+        if (!error && upd.changes.completion_status.to === WORKFLOW.signOff) {
+          await sendTrackerEmail(TABLE_NAME, 'completed', updated, supabase);
+        }
       }
 
-      const { error } = await supabase.from(TABLE_NAME).update(payload).eq('id', upd.id);
+      // Posted like any other comment, so the submitter and prior commenters are emailed
+      let commented = false;
+      if (!error && upd.changes.comment) {
+        try {
+          await addComment(supabase, TABLE_NAME, updated ?? dbById.get(upd.id), user.email, upd.changes.comment.to);
+          commented = true;
+        } catch (commentError: any) {
+          error = commentError;
+        }
+      }
 
       if (error) {
         errors.push({ id: upd.id, error: error.message });
       } else {
         applied.push({ id: upd.id, checkNumber: upd.checkNumber });
       }
+
+      // Every column the update wrote, plus the note posted to the comment
+      // thread — a status change is recorded even if its note failed to post
+      const changes = updated ? diffRecords(dbById.get(upd.id), updated) : {};
+      if (commented) {
+        changes.comment = { from: null, to: upd.changes.comment!.to };
+      }
+      if (Object.keys(changes).length > 0) {
+        events.push({
+          table_name: TABLE_NAME,
+          record_id: upd.id,
+          action: 'updated',
+          source: 'spreadsheet_upload',
+          actor: user.email,
+          changes,
+          reason: upd.changes.completion_status ? upd.reason || null : null,
+        });
+      }
     }
 
+    await recordEvents(supabase, events);
+
     return NextResponse.json({ applied, errors, warnings, skipped });
   } catch (error: any) {
     console.error('Upload spreadsheet error:', error);
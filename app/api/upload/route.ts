@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
 
 const BUCKET = 'attachments';
 
 export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const supabase = createServerSupabaseClient();
     const formData = await request.formData();
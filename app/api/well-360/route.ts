@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { requireUser } from '@/lib/auth';
+import { getLookupProvider } from '@/lib/lookups';
+import { ACCOUNTING_GROUPS } from '@/lib/validation';
+import { getWorkflow } from '@/lib/workflow';
+import type { WellProfile } from '@/lib/types';
+
+// GET - Every transfer log request for a well (JIB and Revenue), with its DIM_WELL attributes
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const wellCode = (searchParams.get('well') || '').trim();
+
+    if (!wellCode) {
+      return NextResponse.json(
+        { error: 'well is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const [transfers, well] = await Promise.all([
+      supabase
+        .from('transfer_log')
+        .select('*')
+        .eq('well_code', wellCode)
+        .is('deleted_at', null)
+        .order('request_date', { ascending: false }),
+      // The lookup source being down shouldn't hide the well's history
+      getLookupProvider().getWell(wellCode).then(
+        (details) => ({ details, error: undefined }),
+        (error: any) => {
+          console.error('Error fetching well attributes:', error);
+          return { details: null, error: error?.message || 'Failed to fetch well attributes' };
+        }
+      ),
+    ]);
+
+    if (transfers.error) throw transfers.error;
+
+    const rows = transfers.data || [];
+    const latest = rows[0];
+
+    const profile: WellProfile = {
+      well_code: wellCode,
+      well_name: well.details?.well_name || latest?.well_name || '',
+      search_key: well.details?.search_key || latest?.search_key || '',
+      attributes: well.details?.attributes ?? null,
+      attributes_error: well.error,
+      transfers: rows,
+      totals: getWorkflow('transfer_log').statuses.map((status) => ({
+        status,
+        counts: Object.fromEntries(
+          ACCOUNTING_GROUPS.map((group) => [
+            group,
+            rows.filter((r) => r.completion_status === status && r.accounting_group === group).length,
+          ])
+        ),
+      })),
+    };
+
+    return NextResponse.json(profile);
+  } catch (error: any) {
+    console.error('Error fetching well profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch well profile' },
+      { status: 500 }
+    );
+  }
+}
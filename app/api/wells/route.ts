@@ -1,20 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getWells } from '@/lib/snowflake';
+import { getLookupProvider } from '@/lib/lookups';
+import { requireUser } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(req.url);
     const search = searchParams.get('search') || '';
 
-    const results = await getWells(search);
-
-    const mapped = results.map((r) => ({
-      well_code: r.COST_CENTER_NUMBER,
-      well_name: r.WELL_NAME,
-      search_key: r.SEARCH_KEY,
-    }));
+    const wells = await getLookupProvider().searchWells(search);
 
-    return NextResponse.json(mapped);
+    return NextResponse.json(wells);
   } catch (error: any) {
     console.error('Error fetching wells:', error);
     return NextResponse.json(
@@ -3,16 +3,48 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useSession, signIn } from 'next-auth/react';
 import type {
-  VoidCheckSubmission,
-  InterestTrackerSubmission,
-  TransferLogSubmission,
+  TrackerSubmission,
+  FieldConfig,
   CheckOption,
   OwnerOption,
   WellOption,
   AppView,
+  TrackerApp,
   TabView,
   SubmissionFilters,
+  SessionUser,
+  CompletionStatus,
+  SavedView,
+  SearchGroup,
+  OwnerProfile,
+  WellProfile,
+  ProfileKind,
+  TrackerMetrics,
+  RequestEvent,
+  RequestComment,
+  DuplicateMatch,
+  OutboxEmail,
+  OutboxStatus,
+  EmailTemplateInfo,
 } from '@/lib/types';
+import { canAssign, canChangeStatus, canDeleteRecord, canEditRecord, hasRole } from '@/lib/permissions';
+import {
+  INVALIDATION_REASONS,
+  formatInvalidation,
+  getWorkflow,
+  nextStatuses,
+  requiresReason,
+  statusClass,
+  validateInvalidation,
+  type WorkflowTable,
+} from '@/lib/workflow';
+import {
+  ACCOUNTING_GROUPS,
+  validatePayload,
+  type FieldErrors,
+} from '@/lib/validation';
+import { TRACKERS, formatField, type TrackerDefinition } from '@/lib/trackers';
+import { isOverdue, slaDueDate } from '@/lib/sla';
 
 /* ============================================================
    Helper hooks
@@ -57,12 +89,31 @@ function formatCurrency(v: number) {
   return '$' + v.toLocaleString('en-US', { minimumFractionDigits: 2 });
 }
 
-function statusClass(s: string) {
-  return s === 'Complete'
-    ? 'complete'
-    : s === 'Request Invalidated'
-    ? 'invalidated'
-    : 'pending';
+// Validation message shown under an input (field names match lib/validation.ts)
+function FieldError({ errors, field }: { errors: FieldErrors; field: string }) {
+  return errors[field] ? <div className="field-error">{errors[field]}</div> : null;
+}
+
+// Shown next to the status of open requests past their tracker's SLA (lib/sla.ts)
+function OverdueFlag({ tracker, record }: { tracker: TrackerDefinition; record: { request_date: string; completion_status: CompletionStatus } }) {
+  if (!isOverdue(tracker, record)) return null;
+  const due = slaDueDate(tracker, record).toISOString();
+  return (
+    <span className="status overdue" title={`Due ${formatDate(due)} (${tracker.slaBusinessDays} business days)`}>
+      Overdue
+    </span>
+  );
+}
+
+// Bulk bar value for clearing the assignee ('' means "leave unchanged")
+const UNASSIGNED = '__unassigned__';
+
+// Prompt for a reason when the workflow requires one for this transition.
+// Returns '' when no reason is needed and null if the user cancels.
+function askStatusReason(table: WorkflowTable, from: string, to: string): string | null {
+  if (from === to || !requiresReason(table, from, to)) return '';
+  const reason = prompt(`A reason is required to move from "${from}" to "${to}":`);
+  return reason?.trim() ? reason.trim() : null;
 }
 
 function exportToCsv(filename: string, headers: string[], rows: string[][]) {
@@ -235,2352 +286,1814 @@ function SearchDropdown<T extends Record<string, string>>({
 }
 
 /* ============================================================
-   Main Page
+   RequestHistory — audit timeline shown in the detail modal
    ============================================================ */
-export default function VoidChecksPage() {
-  const { data: session, status } = useSession();
-  const [activeApp, setActiveApp] = useState<AppView>('void-checks');
-  const [vcTab, setVcTab] = useState<TabView>('new-entry');
-  const [itTab, setItTab] = useState<TabView>('new-entry');
-  const [tlTab, setTlTab] = useState<TabView>('new-entry');
-  const [menuOpen, setMenuOpen] = useState(false);
-  const menuRef = useRef<HTMLDivElement>(null);
-  const [deepLinkId, setDeepLinkId] = useState<string | null>(null);
+const EVENT_SOURCE_LABELS: Record<string, string> = {
+  form: 'Submitted',
+  ui_edit: 'Edited',
+  status_change: 'Status changed',
+  assignment: 'Assigned',
+  bulk_update: 'Bulk update',
+  spreadsheet_upload: 'Spreadsheet upload',
+};
+
+const EVENT_ACTION_LABELS: Record<string, string> = {
+  created: 'Created',
+  deleted: 'Moved to trash',
+  restored: 'Restored',
+  purged: 'Purged',
+};
+
+function formatDateTime(d: string) {
+  return new Date(d).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatFieldName(field: string) {
+  return field.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function formatFieldValue(v: unknown) {
+  if (v === null || v === undefined || v === '') return '(empty)';
+  if (Array.isArray(v)) return v.length ? v.map((x) => String(x).split('/').pop()).join(', ') : '(empty)';
+  return String(v);
+}
+
+function RequestHistory({ table, recordId, refreshKey }: { table: string; recordId: string; refreshKey?: unknown }) {
+  const [events, setEvents] = useState<RequestEvent[]>([]);
+  const [loading, setLoading] = useState(true);
 
-  // Handle deep link URL params: ?app=<app>&id=xxx
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const app = params.get('app');
-    const id = params.get('id');
-    if (app === 'void-checks') {
-      setActiveApp('void-checks');
-      setVcTab('submissions');
-      if (id) setDeepLinkId(id);
-      window.history.replaceState({}, '', window.location.pathname);
-    } else if (app === 'interest-tracker') {
-      setActiveApp('interest-tracker');
-      setItTab('submissions');
-      if (id) setDeepLinkId(id);
-      window.history.replaceState({}, '', window.location.pathname);
-    } else if (app === 'transfer-log') {
-      setActiveApp('transfer-log');
-      setTlTab('submissions');
-      if (id) setDeepLinkId(id);
-      window.history.replaceState({}, '', window.location.pathname);
-    }
-  }, []);
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/history?table=${table}&id=${encodeURIComponent(recordId)}`)
+      .then((res) => res.json())
+      .then((data) => { if (!cancelled && Array.isArray(data)) setEvents(data); })
+      .catch((err) => console.error('Error fetching history:', err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [table, recordId, refreshKey]);
 
-  useClickOutside(menuRef, () => setMenuOpen(false));
+  return (
+    <div className="history-section">
+      <div className="detail-label">History</div>
+      {loading ? (
+        <p className="attach-empty">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="attach-empty">No recorded changes</p>
+      ) : (
+        <div className="history-list">
+          {events.map((ev) => (
+            <div key={ev.id} className="history-item">
+              <div className="history-meta">
+                <strong>{EVENT_ACTION_LABELS[ev.action] || EVENT_SOURCE_LABELS[ev.source] || ev.source}</strong>
+                {' by '}{ev.actor}
+                <span className="history-time">{formatDateTime(ev.created_at)}</span>
+              </div>
+              {ev.reason && <div className="history-change">Reason: {ev.reason}</div>}
+              {ev.action === 'updated' && Object.entries(ev.changes).map(([field, change]) => (
+                <div key={field} className="history-change">
+                  {formatFieldName(field)}:{' '}
+                  <span className="upload-change-from">{formatFieldValue(change.from)}</span>
+                  {' \u2192 '}
+                  <span className="upload-change-to">{formatFieldValue(change.to)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
-  // Show loading while checking auth
-  if (status === 'loading') {
-    return (
-      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', color: 'var(--text-muted)' }}>
-        Loading...
-      </div>
-    );
-  }
+/* ============================================================
+   CommentThread — per-request discussion shown in the detail modal
+   ============================================================ */
+async function uploadFiles(files: File[], folder: string): Promise<string[]> {
+  const formData = new FormData();
+  files.forEach((f) => formData.append('files', f));
+  formData.append('folder', folder);
+  const res = await fetch('/api/upload', { method: 'POST', body: formData });
+  if (!res.ok) throw new Error('Failed to upload attachments');
+  const data = await res.json();
+  return data.paths;
+}
 
-  // Redirect to sign in if not authenticated
-  if (!session) {
-    signIn('azure-ad');
-    return null;
+async function openAttachment(path: string) {
+  try {
+    const res = await fetch(`/api/download?path=${encodeURIComponent(path)}`);
+    const data = await res.json();
+    if (data.url) {
+      window.open(data.url, '_blank');
+    } else {
+      alert('Failed to get download link.');
+    }
+  } catch {
+    alert('Failed to open file.');
   }
+}
 
-  const userEmail = session.user?.email || 'Unknown User';
-  const activeTab = activeApp === 'void-checks' ? vcTab : activeApp === 'interest-tracker' ? itTab : tlTab;
-  const setActiveTab = activeApp === 'void-checks' ? setVcTab : activeApp === 'interest-tracker' ? setItTab : setTlTab;
-  const appLabel = activeApp === 'void-checks' ? 'Void Checks' : activeApp === 'interest-tracker' ? 'Interest Tracker' : 'Transfer Log';
+function CommentThread({ table, recordId, readOnly }: { table: string; recordId: string; readOnly?: boolean }) {
+  const [comments, setComments] = useState<RequestComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [posting, setPosting] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/comments?table=${table}&id=${encodeURIComponent(recordId)}`)
+      .then((res) => res.json())
+      .then((data) => { if (!cancelled && Array.isArray(data)) setComments(data); })
+      .catch((err) => console.error('Error fetching comments:', err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [table, recordId]);
+
+  const handlePost = async () => {
+    if (!body.trim()) return;
+    setPosting(true);
+    try {
+      const uploadedPaths = files.length > 0 ? await uploadFiles(files, 'comments') : [];
+
+      const res = await fetch('/api/comments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ table, record_id: recordId, body, attachments: uploadedPaths }),
+      });
+      if (!res.ok) throw new Error('Failed to add comment');
+      const created: RequestComment = await res.json();
+      setComments((prev) => [...prev, created]);
+      setBody('');
+      setFiles([]);
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      alert('Failed to add comment. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  };
 
   return (
-    <div>
-      <div className="tab-bar">
-        <div className="hamburger-wrapper" ref={menuRef}>
-          <button className="hamburger-btn" onClick={() => setMenuOpen((o) => !o)}>
-            <span className="hamburger-icon">☰</span>
-            {appLabel}
-            <span className={`hamburger-chevron ${menuOpen ? 'open' : ''}`}>▾</span>
-          </button>
-          {menuOpen && (
-            <div className="hamburger-dropdown">
-              <button
-                className={`hamburger-item ${activeApp === 'void-checks' ? 'active' : ''}`}
-                onClick={() => { setActiveApp('void-checks'); setMenuOpen(false); }}
-              >
-                <span className="hamburger-item-icon">✓</span>
-                Void Checks
-              </button>
-              <button
-                className={`hamburger-item ${activeApp === 'interest-tracker' ? 'active' : ''}`}
-                onClick={() => { setActiveApp('interest-tracker'); setMenuOpen(false); }}
-              >
-                <span className="hamburger-item-icon">%</span>
-                Interest Tracker
-              </button>
-              <button
-                className={`hamburger-item ${activeApp === 'transfer-log' ? 'active' : ''}`}
-                onClick={() => { setActiveApp('transfer-log'); setMenuOpen(false); }}
-              >
-                <span className="hamburger-item-icon">↔</span>
-                Transfer Log
-              </button>
+    <div className="comment-section">
+      <div className="detail-label">Comments</div>
+      {loading ? (
+        <p className="attach-empty">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="attach-empty">No comments yet</p>
+      ) : (
+        <div className="comment-list">
+          {comments.map((c) => (
+            <div key={c.id} className="comment-item">
+              <div className="history-meta">
+                <strong>{c.author}</strong>
+                <span className="history-time">{formatDateTime(c.created_at)}</span>
+              </div>
+              <div className="comment-body">{c.body}</div>
+              {c.attachments?.length > 0 && (
+                <div className="detail-attachments">
+                  {c.attachments.map((a, i) => (
+                    <div key={i} className="detail-attach-item" onClick={() => openAttachment(a)}>
+                      📎 {(a.split('/').pop() || a).replace(/^\d+-/, '')}
+                      <span className="attach-dl">Open ↗</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {!readOnly && (
+        <div className="comment-compose">
+          <textarea
+            className="form-textarea"
+            placeholder="Add a comment..."
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          {files.length > 0 && (
+            <div className="attach-list">
+              {files.map((f, i) => (
+                <div key={i} className="attach-item">
+                  <span>📎 {f.name}</span>
+                  <button type="button" className="attach-remove" onClick={() => setFiles((prev) => prev.filter((_, j) => j !== i))}>×</button>
+                </div>
+              ))}
             </div>
           )}
+          <div className="comment-actions">
+            <input
+              ref={fileRef}
+              type="file"
+              multiple
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const picked = Array.from(e.target.files || []);
+                setFiles((prev) => [...prev, ...picked]);
+                e.target.value = '';
+              }}
+            />
+            <button type="button" className="attach-btn" onClick={() => fileRef.current?.click()}>📎 Attach</button>
+            <button type="button" className="submit-btn" disabled={posting || !body.trim()} onClick={handlePost}>
+              {posting ? 'Posting...' : 'Post Comment'}
+            </button>
+          </div>
         </div>
-        <button
-          className={`tab-btn ${activeTab === 'new-entry' ? 'active' : ''}`}
-          onClick={() => setActiveTab('new-entry')}
-        >
-          + New Entry
-        </button>
-        <button
-          className={`tab-btn ${activeTab === 'submissions' ? 'active' : ''}`}
-          onClick={() => setActiveTab('submissions')}
-        >
-          📋 Submissions
-        </button>
-      </div>
+      )}
+    </div>
+  );
+}
 
-      {activeApp === 'void-checks' ? (
-        vcTab === 'new-entry' ? (
-          <div className="content-area">
-            <NewEntryForm onSuccess={() => setVcTab('submissions')} userEmail={userEmail} />
-          </div>
-        ) : (
-          <div className="content-area wide">
-            <SubmissionsView openId={deepLinkId} onOpenIdHandled={() => setDeepLinkId(null)} />
-          </div>
-        )
-      ) : activeApp === 'interest-tracker' ? (
-        itTab === 'new-entry' ? (
-          <div className="content-area">
-            <InterestTrackerForm onSuccess={() => setItTab('submissions')} userEmail={userEmail} />
-          </div>
-        ) : (
-          <div className="content-area wide">
-            <InterestTrackerSubmissionsView openId={deepLinkId} onOpenIdHandled={() => setDeepLinkId(null)} />
+/* ============================================================
+   InvalidationDialog — reason picklist shown before invalidating
+   ============================================================ */
+interface InvalidationInput {
+  invalidation_reason: string;
+  invalidation_note: string;
+}
+
+function InvalidationDialog({ count, onClose }: { count: number; onClose: (value: InvalidationInput | null) => void }) {
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const invalid = !reason || !!validateInvalidation(reason, note);
+
+  return (
+    <div className="modal-overlay" onClick={(e) => { if (e.target === e.currentTarget) onClose(null); }}>
+      <div className="modal" style={{ maxWidth: 460 }}>
+        <div className="modal-header">
+          <h2>Invalidate {count > 1 ? `${count} Requests` : 'Request'}</h2>
+          <div className="modal-actions">
+            <button className="modal-close" onClick={() => onClose(null)}>×</button>
           </div>
-        )
-      ) : (
-        tlTab === 'new-entry' ? (
-          <div className="content-area">
-            <TransferLogForm onSuccess={() => setTlTab('submissions')} userEmail={userEmail} />
+        </div>
+        <div className="modal-body">
+          <div className="detail-label">Reason</div>
+          <select className="edit-input" value={reason} onChange={(e) => setReason(e.target.value)}>
+            <option value="" disabled>Select a reason...</option>
+            {INVALIDATION_REASONS.map((r) => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <div className="detail-label" style={{ marginTop: 14 }}>
+            Details{reason === 'Other' ? '' : ' (optional)'}
           </div>
-        ) : (
-          <div className="content-area wide">
-            <TransferLogSubmissionsView openId={deepLinkId} onOpenIdHandled={() => setDeepLinkId(null)} />
+          <textarea className="edit-textarea" value={note} onChange={(e) => setNote(e.target.value)} />
+          <div className="comment-actions" style={{ marginTop: 16 }}>
+            <button type="button" className="filter-clear" onClick={() => onClose(null)}>Cancel</button>
+            <button
+              type="button"
+              className="submit-btn"
+              disabled={invalid}
+              onClick={() => onClose({ invalidation_reason: reason, invalidation_note: note.trim() })}
+            >
+              Invalidate
+            </button>
           </div>
-        )
-      )}
+        </div>
+      </div>
     </div>
   );
 }
 
+// Promise-based wrapper so status handlers can `await` the dialog
+function useInvalidationDialog() {
+  const [pending, setPending] = useState<{
+    count: number;
+    resolve: (value: InvalidationInput | null) => void;
+  } | null>(null);
+
+  const askInvalidation = useCallback(
+    (count = 1) => new Promise<InvalidationInput | null>((resolve) => setPending({ count, resolve })),
+    []
+  );
+
+  const invalidationDialog = pending ? (
+    <InvalidationDialog
+      count={pending.count}
+      onClose={(value) => { pending.resolve(value); setPending(null); }}
+    />
+  ) : null;
+
+  return { invalidationDialog, askInvalidation };
+}
+
 /* ============================================================
-   New Entry Form
+   Server-driven submissions list (paging, sorting, filters)
    ============================================================ */
-function NewEntryForm({ onSuccess, userEmail }: { onSuccess: () => void; userEmail: string }) {
-  const [checkNumber, setCheckNumber] = useState('');
-  const [checkDisplay, setCheckDisplay] = useState('');
-  const [checkAmount, setCheckAmount] = useState('');
-  const [ownerNumber, setOwnerNumber] = useState('');
-  const [checkDate, setCheckDate] = useState('');
-  const [requestSource, setRequestSource] = useState('');
-  const [notes, setNotes] = useState('');
-  const [attachments, setAttachments] = useState<File[]>([]);
-  const [submitting, setSubmitting] = useState(false);
-  const [showSuccess, setShowSuccess] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+const PAGE_SIZE = 50;
+/** Largest page the API serves; exports fetch the whole list in pages this size */
+const EXPORT_PAGE_SIZE = 1000;
+
+interface ListSort {
+  column: string;
+  dir: 'asc' | 'desc';
+}
+
+const EMPTY_FILTERS: SubmissionFilters = {
+  search: '', status: '', createdBy: '', dateFrom: '', dateTo: '', assignedTo: '', olderThan: '',
+};
 
-  const [ownerName, setOwnerName] = useState('');
-  const mapChecks = useCallback((data: any[]) => data, []);
+function listParams(params: Record<string, string | undefined>) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) if (value) search.set(key, value);
+  return search.toString();
+}
 
-  const sanitizeAmount = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = parseFloat(e.target.value);
-    if (val < 0) e.target.value = Math.abs(val).toString();
-    setCheckAmount(e.target.value);
+/** List state (filters, column filters, sort, trash) encoded in a list query string. */
+function parseListQuery(query: string, tracker: TrackerDefinition) {
+  const params = new URLSearchParams(query);
+  const filters = { ...EMPTY_FILTERS };
+  for (const key of [...Object.keys(EMPTY_FILTERS), 'id'] as (keyof SubmissionFilters)[]) {
+    if (params.get(key)) filters[key] = params.get(key)!;
+  }
+  return {
+    filters,
+    columnFilters: Object.fromEntries((tracker.filterColumns || []).map((c) => [c, params.get(c) || ''])),
+    sort: { column: params.get('sort') || 'request_date', dir: params.get('dir') === 'asc' ? 'asc' : 'desc' } as ListSort,
+    showTrash: params.get('trash') === 'true',
   };
+}
 
-  const formatAmount = (e: React.FocusEvent<HTMLInputElement>) => {
-    if (e.target.value) {
-      const val = Math.abs(parseFloat(e.target.value));
-      if (isNaN(val)) {
-        setCheckAmount('');
-        return;
+/**
+ * A tracker's submissions list: the filters, sort and Trash toggle, one
+ * page of matching rows fetched from its GET route, and the submitters
+ * and assignees for the filter and assign dropdowns. The list state is
+ * mirrored in the URL (`?app=<app>&status=...&sort=...`) so a filtered
+ * list can be bookmarked or shared, and is read back from it on load.
+ */
+function useSubmissionsList<T>(tracker: TrackerDefinition) {
+  const [initial] = useState(() => {
+    const params = typeof window === 'undefined' ? null : new URLSearchParams(window.location.search);
+    return parseListQuery(params?.get('app') === tracker.app ? params.toString() : '', tracker);
+  });
+  const [filters, setFilters] = useState<SubmissionFilters>(initial.filters);
+  // Exact-match filters on the tracker's own columns (see `filterColumns` in lib/trackers.ts)
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>(initial.columnFilters);
+  const [sort, setSort] = useState<ListSort>(initial.sort);
+  const [showTrash, setShowTrash] = useState(initial.showTrash);
+  const [rows, setRows] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [people, setPeople] = useState<{ creators: string[]; assignees: string[] }>({ creators: [], assignees: [] });
+
+  const { id, ...viewFilters } = filters;
+  // Everything but the deep-linked entry: what a saved view stores
+  const viewQuery = listParams({
+    ...viewFilters,
+    ...columnFilters,
+    trash: showTrash ? 'true' : undefined,
+    sort: sort.column,
+    dir: sort.dir,
+  });
+  const query = id ? `${viewQuery}&${listParams({ id })}` : viewQuery;
+
+  useEffect(() => {
+    window.history.replaceState(null, '', `?${listParams({ app: tracker.app })}&${query}`);
+  }, [tracker.app, query]);
+
+  // Wait for a pause in typing before querying the server
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(t);
+  }, [query]);
+
+  // Any change to the filters or sort starts again from the first page
+  const [paging, setPaging] = useState({ query: debouncedQuery, page: 1 });
+  const page = paging.query === debouncedQuery ? paging.page : 1;
+  const setPage = (p: number) => setPaging({ query: debouncedQuery, page: p });
+
+  const api = tracker.api;
+  const requestSeq = useRef(0);
+  const fetchRows = useCallback(async () => {
+    const seq = ++requestSeq.current;
+    try {
+      const res = await fetch(`${api}?${debouncedQuery}&page=${page}&pageSize=${PAGE_SIZE}`);
+      const data = await res.json();
+      // A newer request (page click, filter change) has superseded this one
+      if (seq !== requestSeq.current) return;
+      if (Array.isArray(data.rows)) {
+        setRows(data.rows);
+        setTotal(data.total);
       }
-      setCheckAmount(val.toFixed(2));
+    } catch (err) {
+      console.error('Error fetching submissions:', err);
+    } finally {
+      if (seq === requestSeq.current) setLoading(false);
+    }
+  }, [api, debouncedQuery, page]);
+
+  // Only fetched when the list opens, the Trash is toggled, or after an
+  // assignment (new submitters arrive with a fresh list after submitting)
+  const refreshPeople = useCallback(async () => {
+    try {
+      const res = await fetch(`${api}?${listParams({ facets: 'true', trash: showTrash ? 'true' : undefined })}`);
+      const data = await res.json();
+      if (Array.isArray(data.creators)) setPeople(data);
+    } catch (err) {
+      console.error('Error fetching submitters:', err);
     }
+  }, [api, showTrash]);
+
+  useEffect(() => { fetchRows(); }, [fetchRows]);
+  useEffect(() => { refreshPeople(); }, [refreshPeople]);
+
+  // Deleting the last row of the last page leaves an empty page behind
+  useEffect(() => {
+    if (!loading && rows.length === 0 && page > 1) setPage(Math.max(1, Math.ceil(total / PAGE_SIZE)));
+  }, [loading, rows.length, page, total]);
+
+  const toggleSort = (column: string) =>
+    setSort((s) => (s.column === column ? { column, dir: s.dir === 'asc' ? 'desc' : 'asc' } : { column, dir: 'asc' }));
+
+  const toggleTrash = () => {
+    setShowTrash((t) => !t);
+    setLoading(true);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  /** Replace the filters, sort and Trash toggle with those of a saved view. */
+  const applyView = (savedQuery: string) => {
+    const view = parseListQuery(savedQuery, tracker);
+    setFilters(view.filters);
+    setColumnFilters(view.columnFilters);
+    setSort(view.sort);
+    if (view.showTrash !== showTrash) toggleTrash();
+  };
 
-    if (!checkNumber) { alert('Please select a Check Number'); return; }
-    if (!ownerNumber) { alert('Please select an Owner Number'); return; }
-    if (!checkAmount || !checkDate) return;
+  /** Every row matching the current filters, in the current order (for exports). */
+  const fetchAll = async (): Promise<T[]> => {
+    const all: T[] = [];
+    for (let p = 1; ; p++) {
+      const res = await fetch(`${api}?${query}&page=${p}&pageSize=${EXPORT_PAGE_SIZE}`);
+      if (!res.ok) throw new Error('Failed to fetch submissions');
+      const data = await res.json();
+      all.push(...data.rows);
+      if (data.rows.length < EXPORT_PAGE_SIZE || all.length >= data.total) return all;
+    }
+  };
 
-    // Duplicate check — warn if owner, check number, and amount already exist
-    try {
-      const res = await fetch('/api/submissions');
-      const existing: VoidCheckSubmission[] = await res.json();
-      const amt = parseFloat(checkAmount);
-      const chk = String(checkNumber).trim();
-      const own = String(ownerNumber).trim();
-      const dupe = existing.find(
-        (s) =>
-          String(s.check_number).trim() === chk &&
-          String(s.owner_number).trim() === own &&
-          Math.abs(Number(s.check_amount) - amt) < 0.01
-      );
-      if (dupe) {
-        const msg = `A submission already exists with Check # ${dupe.check_number}, Amount $${Number(dupe.check_amount).toFixed(2)}, and Owner # ${dupe.owner_number}.\n\nWould you like to submit anyway?`;
-        if (!confirm(msg)) return;
-      }
-    } catch {}
+  return {
+    filters, setFilters, columnFilters, setColumnFilters, viewQuery, applyView,
+    rows, total, loading, page, setPage, sort, toggleSort, showTrash, toggleTrash, people, refreshPeople,
+    refresh: fetchRows, fetchAll,
+  };
+}
 
-    setSubmitting(true);
+/** Named filter sets the user has saved for this tracker, listed next to Clear All. */
+function SavedViews({ app, query, onApply }: { app: AppView; query: string; onApply: (query: string) => void }) {
+  const [views, setViews] = useState<SavedView[]>([]);
+
+  const fetchViews = useCallback(async () => {
     try {
-      // Upload attachments to Supabase Storage first
-      let uploadedPaths: string[] = [];
-      if (attachments.length > 0) {
-        const formData = new FormData();
-        attachments.forEach((f) => formData.append('files', f));
-        const uploadRes = await fetch('/api/upload', { method: 'POST', body: formData });
-        if (!uploadRes.ok) throw new Error('Failed to upload attachments');
-        const uploadData = await uploadRes.json();
-        uploadedPaths = uploadData.paths;
-      }
+      const res = await fetch(`/api/saved-views?app=${app}`);
+      const data = await res.json();
+      if (Array.isArray(data)) setViews(data);
+    } catch (err) {
+      console.error('Error fetching saved views:', err);
+    }
+  }, [app]);
+
+  useEffect(() => { fetchViews(); }, [fetchViews]);
 
-      const res = await fetch('/api/submissions', {
+  // The view matching the current filters, if any
+  const active = views.find((v) => v.query === query);
+
+  const saveView = async () => {
+    const name = prompt('Save the current filters as:', active?.name || '')?.trim();
+    if (!name) return;
+    try {
+      const res = await fetch('/api/saved-views', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          check_number: checkNumber,
-          check_amount: checkAmount,
-          owner_number: ownerNumber,
-          owner_name: ownerName,
-          check_date: checkDate.includes('-') && checkDate.length === 10
-            ? `${checkDate.slice(6, 10)}-${checkDate.slice(0, 2)}-${checkDate.slice(3, 5)}`
-            : checkDate,
-          request_source: requestSource,
-          notes,
-          attachments: uploadedPaths,
-          created_by: userEmail,
-        }),
+        body: JSON.stringify({ app, name, query }),
       });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to save view.');
+        return;
+      }
+      fetchViews();
+    } catch {
+      alert('Failed to save view.');
+    }
+  };
 
-      if (!res.ok) throw new Error('Failed to submit');
-
-      setShowSuccess(true);
-      setTimeout(() => {
-        setShowSuccess(false);
-        setCheckNumber(''); setCheckDisplay('');
-        setCheckAmount('');
-        setOwnerNumber(''); setOwnerName('');
-        setCheckDate(''); setRequestSource(''); setNotes(''); setAttachments([]);
-        onSuccess();
-      }, 1800);
-    } catch (err) {
-      console.error('Submit error:', err);
-      alert('Failed to submit. Please try again.');
-    } finally {
-      setSubmitting(false);
+  const deleteView = async (view: SavedView) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return;
+    try {
+      const res = await fetch('/api/saved-views', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: view.id }),
+      });
+      if (!res.ok) throw new Error('Failed');
+      fetchViews();
+    } catch {
+      alert('Failed to delete view.');
     }
   };
 
   return (
-    <>
-      <div className="form-card">
-        <div className="form-card-accent" />
-        <div className="form-card-body">
-          <h1 className="form-card-title">New Void Check Entry</h1>
-          <p className="form-card-subtitle">
-            Submitting as {userEmail}
-          </p>
+    <div className="filter-group">
+      <span className="filter-label">Saved Views</span>
+      <div className="saved-views">
+        <select
+          className="filter-select"
+          value={active?.id || ''}
+          onChange={(e) => {
+            const view = views.find((v) => v.id === e.target.value);
+            if (view) onApply(view.query);
+          }}
+        >
+          <option value="">{views.length ? 'Choose a view...' : 'No saved views'}</option>
+          {views.map((v) => <option key={v.id} value={v.id}>{v.name}</option>)}
+        </select>
+        <button className="filter-clear" onClick={saveView}>☆ Save</button>
+        {active && (
+          <button className="filter-clear" onClick={() => deleteView(active)}>Delete</button>
+        )}
+      </div>
+    </div>
+  );
+}
 
-          <form onSubmit={handleSubmit}>
-            {/* Check Number */}
-            <div className="form-group">
-              <label className="form-label">
-                Check Number <span className="required">*</span>
-              </label>
-              <SearchDropdown
-                placeholder="Search and select a check..."
-                value={checkNumber}
-                displayValue={checkDisplay}
-                onChange={(val, display) => {
-                  setCheckNumber(val);
-                  setCheckDisplay(display);
-                }}
-                onSelect={(item: any) => {
-                  setOwnerNumber(item.owner_number || '');
-                  setOwnerName(item.owner_name || '');
-                  const amt = item.check_amount != null ? Number(item.check_amount) : NaN;
-                  setCheckAmount(isNaN(amt) ? '' : amt.toFixed(2));
-                  const raw = item.check_date || '';
-                  if (raw) {
-                    const parts = raw.split('T')[0].split('-');
-                    setCheckDate(`${parts[1]}-${parts[2]}-${parts[0]}`);
-                  } else {
-                    setCheckDate('');
-                  }
-                }}
-                fetchUrl="/api/checks"
-                mapResult={mapChecks}
-                renderOption={(item: any) => (
-                  <span className="search-option-number">{item.check_number}</span>
-                )}
-              />
-            </div>
+function SortHeader({ label, column, sort, onSort }: {
+  label: string;
+  column: string;
+  sort: ListSort;
+  onSort: (column: string) => void;
+}) {
+  const active = sort.column === column;
+  return (
+    <th className="sortable" onClick={() => onSort(column)}>
+      {label}
+      <span className={`sort-arrow ${active ? 'active' : ''}`}>{active ? (sort.dir === 'asc' ? '▲' : '▼') : '↕'}</span>
+    </th>
+  );
+}
 
-            {/* Check Amount */}
-            <div className="form-group">
-              <label className="form-label">
-                Check Amount <span className="required">*</span>
-              </label>
-              <input
-                type="text"
-                className="form-input"
-                placeholder="Auto-filled when check is selected"
-                value={checkAmount ? `$${checkAmount}` : ''}
-                readOnly
-              />
-            </div>
+function Pagination({ page, total, onPage }: { page: number; total: number; onPage: (page: number) => void }) {
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  if (pages === 1) return null;
+  return (
+    <div className="pagination">
+      <span className="pagination-info">
+        {(page - 1) * PAGE_SIZE + 1}–{Math.min(total, page * PAGE_SIZE)} of {total}
+      </span>
+      <button className="pagination-btn" disabled={page <= 1} onClick={() => onPage(page - 1)}>‹ Prev</button>
+      <span className="pagination-info">Page {page} of {pages}</span>
+      <button className="pagination-btn" disabled={page >= pages} onClick={() => onPage(page + 1)}>Next ›</button>
+    </div>
+  );
+}
 
-            {/* Owner Number (auto-filled from check) */}
-            <div className="form-group">
-              <label className="form-label">
-                Owner Number <span className="required">*</span>
-              </label>
-              <input
-                type="text"
-                className="form-input"
-                placeholder="Auto-filled when check is selected"
-                value={ownerNumber ? `${ownerNumber} – ${ownerName}` : ''}
-                readOnly
-              />
-            </div>
+/* ============================================================
+   Global Search — header box searching every tracker
+   ============================================================ */
+const MIN_SEARCH_LENGTH = 2;
 
-            {/* Check Date */}
-            <div className="form-group">
-              <label className="form-label">
-                Check Date <span className="required">*</span>
-              </label>
-              <input
-                type="text"
-                className="form-input"
-                placeholder="Auto-filled when check is selected"
-                value={checkDate}
-                readOnly
-              />
-            </div>
-
-            {/* Request Source */}
-            <div className="form-group">
-              <label className="form-label">
-                Request Source <span className="required">*</span>
-              </label>
-              <select
-                className="form-input"
-                value={requestSource}
-                onChange={(e) => setRequestSource(e.target.value)}
-                required
-              >
-                <option value="" disabled>Select a source...</option>
-                <option value="Returned Check">Returned Check</option>
-                <option value="Void Request">Void Request</option>
-              </select>
-            </div>
+function GlobalSearch({ onOpen }: { onOpen: (app: AppView, id: string) => void }) {
+  const [query, setQuery] = useState('');
+  const [groups, setGroups] = useState<SearchGroup[]>([]);
+  const [show, setShow] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const requestSeq = useRef(0);
 
-            {/* Notes */}
-            <div className="form-group">
-              <label className="form-label">Notes</label>
-              <textarea
-                className="form-textarea"
-                placeholder="Input Notes"
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
-              />
-            </div>
+  useClickOutside(wrapperRef, () => setShow(false));
 
-            {/* Attachments */}
-            <div className="attach-section">
-              <label className="form-label">Attachments</label>
-              {attachments.length === 0 ? (
-                <p className="attach-empty">There is nothing attached.</p>
-              ) : (
-                <div className="attach-list">
-                  {attachments.map((file, i) => (
-                    <div key={i} className="attach-item">
-                      <a
-                        href={URL.createObjectURL(file)}
-                        download={file.name}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        style={{ color: 'var(--primary)', textDecoration: 'none' }}
-                      >
-                        📎 {file.name}
-                      </a>
-                      <button
-                        type="button"
-                        className="attach-remove"
-                        onClick={() => setAttachments((p) => p.filter((_, j) => j !== i))}
-                      >
-                        ×
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              )}
-              <input
-                ref={fileInputRef}
-                type="file"
-                multiple
-                onChange={(e) => {
-                  const newFiles = e.target.files ? Array.from(e.target.files) : [];
-                  if (newFiles.length > 0) {
-                    setAttachments((p) => [...p, ...newFiles]);
-                  }
-                  if (fileInputRef.current) fileInputRef.current.value = '';
-                }}
-                style={{ display: 'none' }}
-              />
-              <button
-                type="button"
-                className="attach-btn"
-                onClick={() => fileInputRef.current?.click()}
-              >
-                📎 Attach file
-              </button>
-            </div>
+  const runSearch = useCallback(async (q: string) => {
+    const seq = ++requestSeq.current;
+    if (q.trim().length < MIN_SEARCH_LENGTH) {
+      setGroups([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/search?q=${encodeURIComponent(q.trim())}`);
+      const data = await res.json();
+      // Ignore results for a query the user has since typed past
+      if (seq === requestSeq.current && Array.isArray(data)) setGroups(data);
+    } catch (err) {
+      console.error('Search error:', err);
+    } finally {
+      if (seq === requestSeq.current) setLoading(false);
+    }
+  }, []);
 
-            <button type="submit" className="submit-btn" disabled={submitting}>
-              {submitting ? 'Submitting...' : 'Submit'}
-            </button>
-          </form>
-        </div>
-      </div>
+  const debouncedSearch = useDebounce(runSearch, 300);
 
-      {showSuccess && (
-        <div className="toast-overlay">
-          <div className="toast">
-            <div className="toast-icon">✓</div>
-            <h3>Submitted Successfully</h3>
-            <p>Your void check request is now pending.</p>
-          </div>
+  return (
+    <div className="global-search" ref={wrapperRef}>
+      <input
+        type="search"
+        className="global-search-input"
+        placeholder="Search owners, checks, wells, notes..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setShow(true);
+          debouncedSearch(e.target.value);
+        }}
+        onFocus={() => setShow(true)}
+      />
+      {show && query.trim().length >= MIN_SEARCH_LENGTH && (
+        <div className="global-search-results">
+          {loading ? (
+            <div className="search-no-results">Searching...</div>
+          ) : groups.length === 0 ? (
+            <div className="search-no-results">No results found</div>
+          ) : (
+            groups.map((g) => (
+              <div key={g.table} className="global-search-group">
+                <div className="global-search-group-title">
+                  {g.title}
+                  <span>{g.total > g.results.length ? `${g.results.length} of ${g.total}` : g.total}</span>
+                </div>
+                {g.results.map((result) => (
+                  <div
+                    key={result.id}
+                    className="search-option"
+                    onClick={() => {
+                      onOpen(g.app, result.id);
+                      setShow(false);
+                    }}
+                  >
+                    <span>
+                      <span className="search-option-number">{result.label}</span>
+                      {result.notes && <span className="global-search-notes">{result.notes}</span>}
+                    </span>
+                    <span className={`status ${statusClass(result.status)}`}>{result.status}</span>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
         </div>
       )}
-    </>
+    </div>
   );
 }
 
 /* ============================================================
-   Submissions View — filters, bulk actions, detail/edit modal
+   360 pages — everything recorded against one owner or well
    ============================================================ */
-function SubmissionsView({ openId, onOpenIdHandled }: { openId?: string | null; onOpenIdHandled?: () => void }) {
-  const [submissions, setSubmissions] = useState<VoidCheckSubmission[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<SubmissionFilters>({
-    search: '', status: '', createdBy: '', dateFrom: '', dateTo: '',
-  });
-  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
-  const [bulkStatus, setBulkStatus] = useState('');
-  const [detailIndex, setDetailIndex] = useState<number | null>(null);
-  const [editMode, setEditMode] = useState(false);
-  const [editData, setEditData] = useState<Partial<VoidCheckSubmission>>({});
-  const [editAttachments, setEditAttachments] = useState<string[]>([]);
-  const editFileRef = useRef<HTMLInputElement>(null);
-
-  // Spreadsheet upload
-  const [showUploadModal, setShowUploadModal] = useState(false);
-  const [uploadFile, setUploadFile] = useState<File | null>(null);
-  const [uploadPreview, setUploadPreview] = useState<any>(null);
-  const [uploadResult, setUploadResult] = useState<any>(null);
-  const [uploadLoading, setUploadLoading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const uploadFileRef = useRef<HTMLInputElement>(null);
-
-  const closeUploadModal = useCallback(() => {
-    setShowUploadModal(false);
-    setUploadFile(null);
-    setUploadPreview(null);
-    setUploadResult(null);
-    setUploadError(null);
-    setUploadLoading(false);
-    if (uploadFileRef.current) uploadFileRef.current.value = '';
-  }, []);
-
-  const handleUploadPreview = useCallback(async () => {
-    if (!uploadFile) return;
-    setUploadLoading(true);
-    setUploadError(null);
-    try {
-      const fd = new FormData();
-      fd.append('file', uploadFile);
-      fd.append('action', 'preview');
-      const res = await fetch('/api/upload-spreadsheet', { method: 'POST', body: fd });
-      const data = await res.json();
-      if (!res.ok) { setUploadError(data.error || 'Failed to parse spreadsheet'); return; }
-      setUploadPreview(data);
-    } catch {
-      setUploadError('Failed to upload. Please try again.');
-    } finally {
-      setUploadLoading(false);
-    }
-  }, [uploadFile]);
-
-  const handleUploadApply = useCallback(async () => {
-    if (!uploadFile) return;
-    setUploadLoading(true);
-    try {
-      const fd = new FormData();
-      fd.append('file', uploadFile);
-      fd.append('action', 'apply');
-      const res = await fetch('/api/upload-spreadsheet', { method: 'POST', body: fd });
-      const data = await res.json();
-      setUploadResult(data);
-    } catch {
-      setUploadError('Failed to apply changes.');
-    } finally {
-      setUploadLoading(false);
-    }
-  }, [uploadFile]);
 
-  // Notes column resize
-  const [notesWidth, setNotesWidth] = useState(200);
-  const resizeStartX = useRef(0);
-  const resizeStartW = useRef(0);
+/** Owner or well value in a list or detail modal, linking to its 360 page. */
+function ProfileLink({ value, onOpen, children }: {
+  value: string;
+  onOpen?: (value: string) => void;
+  children: React.ReactNode;
+}) {
+  if (!onOpen || !value) return <>{children}</>;
+  return (
+    <button
+      type="button"
+      className="profile-link"
+      title="View everything recorded for this"
+      onClick={(e) => {
+        e.stopPropagation();
+        onOpen(value);
+      }}
+    >
+      {children}
+    </button>
+  );
+}
 
-  const onNotesResizeStart = useCallback((e: React.MouseEvent) => {
-    e.preventDefault();
-    resizeStartX.current = e.clientX;
-    resizeStartW.current = notesWidth;
+/** Load a 360 page's data; `error` is set if the request fails. */
+function useProfile<T>(url: string) {
+  const [profile, setProfile] = useState<T | null>(null);
+  const [error, setError] = useState('');
 
-    const onMouseMove = (ev: MouseEvent) => {
-      const diff = ev.clientX - resizeStartX.current;
-      setNotesWidth(Math.max(80, resizeStartW.current + diff));
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setProfile(null);
+      setError('');
+      try {
+        const res = await fetch(url);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load');
+        if (!cancelled) setProfile(data);
+      } catch (err: any) {
+        console.error('Profile load error:', err);
+        if (!cancelled) setError(err.message || 'Failed to load');
+      }
     };
-
-    const onMouseUp = () => {
-      document.removeEventListener('mousemove', onMouseMove);
-      document.removeEventListener('mouseup', onMouseUp);
-      document.body.style.cursor = '';
-      document.body.style.userSelect = '';
+    load();
+    return () => {
+      cancelled = true;
     };
+  }, [url]);
 
-    document.body.style.cursor = 'col-resize';
-    document.body.style.userSelect = 'none';
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
-  }, [notesWidth]);
-
-  const fetchSubmissions = useCallback(async () => {
-    try {
-      const res = await fetch('/api/submissions');
-      const data = await res.json();
-      if (Array.isArray(data)) setSubmissions(data);
-    } catch (err) {
-      console.error('Error fetching submissions:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => { fetchSubmissions(); }, [fetchSubmissions]);
-
-  // Auto-open detail from deep link
-  useEffect(() => {
-    if (openId && submissions.length > 0 && !loading) {
-      const idx = submissions.findIndex((s) => s.id === openId);
-      if (idx !== -1) setDetailIndex(idx);
-      onOpenIdHandled?.();
-    }
-  }, [openId, submissions, loading, onOpenIdHandled]);
-
-  // Filtering
-  const filtered = submissions.filter((s) => {
-    if (filters.search) {
-      const q = filters.search.toLowerCase();
-      if (!s.owner_number.toLowerCase().includes(q) && !s.check_number.toLowerCase().includes(q) && !(s.owner_name || '').toLowerCase().includes(q))
-        return false;
-    }
-    if (filters.status && s.completion_status !== filters.status) return false;
-    if (filters.createdBy && s.created_by !== filters.createdBy) return false;
-    if (filters.dateFrom) {
-      const rd = new Date(s.request_date).toISOString().slice(0, 10);
-      if (rd < filters.dateFrom) return false;
-    }
-    if (filters.dateTo) {
-      const rd = new Date(s.request_date).toISOString().slice(0, 10);
-      if (rd > filters.dateTo) return false;
-    }
-    return true;
-  }).sort((a, b) => new Date(b.request_date).getTime() - new Date(a.request_date).getTime());
+  return { profile, error };
+}
 
-  const uniqueUsers = [...new Set(submissions.map((s) => s.created_by))].sort();
+function OwnerView({ ownerNumber, onBack, onOpen }: {
+  ownerNumber: string;
+  onBack: () => void;
+  onOpen: (app: AppView, id: string) => void;
+}) {
+  const { profile, error } = useProfile<OwnerProfile>(`/api/owner-360?owner=${encodeURIComponent(ownerNumber)}`);
 
-  const clearFilters = () =>
-    setFilters({ search: '', status: '', createdBy: '', dateFrom: '', dateTo: '' });
+  if (!profile) {
+    return (
+      <div className="submissions-card">
+        <div className="empty-state">{error || 'Loading...'}</div>
+      </div>
+    );
+  }
 
-  const activeFilterTags = [
-    filters.search && { label: `Search: ${filters.search}`, key: 'search' as const },
-    filters.status && { label: `Status: ${filters.status}`, key: 'status' as const },
-    filters.createdBy && {
-      label: `By: ${filters.createdBy.split('@')[0]}`,
-      key: 'createdBy' as const,
-    },
-    filters.dateFrom && { label: `From: ${formatDate(filters.dateFrom)}`, key: 'dateFrom' as const },
-    filters.dateTo && { label: `To: ${formatDate(filters.dateTo)}`, key: 'dateTo' as const },
-  ].filter(Boolean) as { label: string; key: keyof SubmissionFilters }[];
+  const voidTracker = TRACKERS.void_checks;
+  const interestTracker = TRACKERS.interest_tracker;
+  // Void checks already requested for a check number, to flag them among the outstanding checks
+  const voidByCheck = new Map(profile.void_checks.map((v) => [String(v.check_number), v]));
+  const outstandingTotal = profile.outstanding_checks.reduce((sum, c) => sum + (Number(c.check_amount) || 0), 0);
+  const statuses = getWorkflow('void_checks').statuses;
 
-  // Selection
-  const filteredIds = new Set(filtered.map((s) => s.id!));
-  const allSelected = filtered.length > 0 && filtered.every((s) => selectedRows.has(s.id!));
-  const someSelected = filtered.some((s) => selectedRows.has(s.id!));
+  return (
+    <div className="profile-view">
+      <div className="submissions-card">
+        <div className="submissions-header">
+          <button className="cancel-edit-btn" onClick={onBack}>← Back</button>
+          <h2>Owner {profile.owner_number}{profile.owner_name ? ` \u2013 ${profile.owner_name}` : ''}</h2>
+        </div>
+        <div className="profile-stats">
+          <div className="profile-stat">
+            <div className="detail-label">{voidTracker.title}</div>
+            <div className="profile-stat-value">{profile.void_checks.length}</div>
+          </div>
+          <div className="profile-stat">
+            <div className="detail-label">{interestTracker.title}</div>
+            <div className="profile-stat-value">{profile.interest_entries.length}</div>
+          </div>
+          <div className="profile-stat">
+            <div className="detail-label">Outstanding Checks</div>
+            <div className="profile-stat-value">
+              {profile.outstanding_error ? '\u2014' : `${profile.outstanding_checks.length} \u00b7 ${formatCurrency(outstandingTotal)}`}
+            </div>
+          </div>
+        </div>
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Status</th>
+                <th>Void Checks</th>
+                <th>Check Amount</th>
+                <th>Interest Entries</th>
+                <th>Amount Due</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statuses.map((status) => {
+                const v = profile.totals.void_checks.find((t) => t.status === status)!;
+                // Interest entries have no Awaiting Bank step
+                const it = profile.totals.interest_tracker.find((t) => t.status === status);
+                return (
+                  <tr key={status}>
+                    <td><span className={`status ${statusClass(status)}`}>{status}</span></td>
+                    <td>{v.count}</td>
+                    <td>{formatCurrency(v.amount)}</td>
+                    <td>{it ? it.count : '\u2014'}</td>
+                    <td>{it ? formatCurrency(it.amount) : '\u2014'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
 
-  const toggleRow = (id: string) => {
-    setSelectedRows((prev) => {
-      const next = new Set(prev);
-      next.has(id) ? next.delete(id) : next.add(id);
-      return next;
-    });
-  };
+      <div className="submissions-card">
+        <div className="submissions-header">
+          <h2>Outstanding Checks</h2>
+          <span className="submissions-count">{profile.outstanding_checks.length}</span>
+        </div>
+        {profile.outstanding_error ? (
+          <div className="empty-state">Couldn&apos;t load outstanding checks from Snowflake.</div>
+        ) : profile.outstanding_checks.length === 0 ? (
+          <div className="empty-state">No unreconciled checks.</div>
+        ) : (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Check #</th>
+                  <th>Check Amount</th>
+                  <th>Check Date</th>
+                  <th>Void Request</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.outstanding_checks.map((c) => {
+                  const requested = voidByCheck.get(String(c.check_number));
+                  return (
+                    <tr key={c.check_number} onClick={() => requested && onOpen(voidTracker.app, requested.id!)}>
+                      <td style={{ fontWeight: 600 }}>{c.check_number}</td>
+                      <td>{formatCurrency(c.check_amount)}</td>
+                      <td>{formatDate(c.check_date)}</td>
+                      <td>
+                        {requested ? (
+                          <span className={`status ${statusClass(requested.completion_status)}`}>{requested.completion_status}</span>
+                        ) : '\u2014'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
 
-  const toggleAll = () => {
-    if (allSelected) {
-      setSelectedRows((prev) => {
-        const next = new Set(prev);
-        filteredIds.forEach((id) => next.delete(id));
-        return next;
-      });
-    } else {
-      setSelectedRows((prev) => {
-        const next = new Set(prev);
-        filteredIds.forEach((id) => next.add(id));
-        return next;
-      });
-    }
-  };
-
-  const applyBulk = async () => {
-    if (!bulkStatus || selectedRows.size === 0) return;
-    const n = selectedRows.size;
-    if (!confirm(`Change status to "${bulkStatus}" for ${n} submission${n > 1 ? 's' : ''}?`))
-      return;
-
-    try {
-      const res = await fetch('/api/submissions', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ids: Array.from(selectedRows),
-          completion_status: bulkStatus,
-        }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      setSelectedRows(new Set());
-      setBulkStatus('');
-      fetchSubmissions();
-    } catch (err) {
-      alert('Failed to update. Please try again.');
-    }
-  };
-
-  const clearSelection = () => {
-    setSelectedRows(new Set());
-    setBulkStatus('');
-  };
-
-  // Status change (single)
-  const handleStatusChange = async (id: string, newStatus: string) => {
-    try {
-      const res = await fetch('/api/submissions', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id, completion_status: newStatus }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      fetchSubmissions();
-    } catch (err) {
-      alert('Failed to update status.');
-    }
-  };
-
-  // Delete
-  const handleDelete = async (sub: VoidCheckSubmission) => {
-    if (
-      !confirm(
-        `Are you sure you want to delete this entry?\n\nCheck # ${sub.check_number} — ${formatCurrency(sub.check_amount)}\n\nThis action cannot be undone.`
-      )
-    )
-      return;
-
-    try {
-      const res = await fetch('/api/submissions', {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: sub.id }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      closeDetail();
-      fetchSubmissions();
-    } catch (err) {
-      alert('Failed to delete. Please try again.');
-    }
-  };
-
-  // Edit
-  const startEdit = (sub: VoidCheckSubmission) => {
-    setEditMode(true);
-    setEditData({
-      check_number: sub.check_number,
-      check_amount: sub.check_amount,
-      owner_number: sub.owner_number,
-      owner_name: sub.owner_name,
-      check_date: sub.check_date,
-      request_source: sub.request_source,
-      notes: sub.notes,
-      completion_status: sub.completion_status,
-    });
-    setEditAttachments(sub.attachments ? [...sub.attachments] : []);
-  };
-
-  const saveEdit = async () => {
-    if (detailIndex === null) return;
-    const sub = submissions[detailIndex];
-    if (!editData.check_number || !editData.owner_number || !editData.check_date) {
-      alert('Please fill in all required fields.');
-      return;
-    }
-
-    try {
-      const res = await fetch('/api/submissions', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: sub.id, ...editData, attachments: editAttachments }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      setEditMode(false);
-      fetchSubmissions();
-    } catch (err) {
-      alert('Failed to save changes.');
-    }
-  };
+      <div className="submissions-card">
+        <div className="submissions-header">
+          <h2>{voidTracker.title}</h2>
+          <span className="submissions-count">{profile.void_checks.length}</span>
+        </div>
+        {profile.void_checks.length === 0 ? (
+          <div className="empty-state">No void check requests.</div>
+        ) : (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Check #</th>
+                  <th>Check Amount</th>
+                  <th>Check Date</th>
+                  <th>Request Source</th>
+                  <th>Request Date</th>
+                  <th>Completion Status</th>
+                  <th>Created By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.void_checks.map((s) => (
+                  <tr key={s.id} onClick={() => onOpen(voidTracker.app, s.id!)}>
+                    <td style={{ fontWeight: 600 }}>{s.check_number}</td>
+                    <td>{formatCurrency(s.check_amount)}</td>
+                    <td>{formatDate(s.check_date)}</td>
+                    <td>{s.request_source || '\u2014'}</td>
+                    <td>{formatDate(s.request_date)}</td>
+                    <td><span className={`status ${statusClass(s.completion_status)}`}>{s.completion_status}</span></td>
+                    <td>{s.created_by}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
 
-  const openDetail = (index: number) => {
-    setDetailIndex(index);
-    setEditMode(false);
-  };
+      <div className="submissions-card">
+        <div className="submissions-header">
+          <h2>{interestTracker.title}</h2>
+          <span className="submissions-count">{profile.interest_entries.length}</span>
+        </div>
+        {profile.interest_entries.length === 0 ? (
+          <div className="empty-state">No interest tracker entries.</div>
+        ) : (
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>% Interest</th>
+                  <th>Start (Prod)</th>
+                  <th>End (Prod)</th>
+                  <th>Amount Due</th>
+                  <th>Request Date</th>
+                  <th>Completion Status</th>
+                  <th>Created By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.interest_entries.map((s) => (
+                  <tr key={s.id} onClick={() => onOpen(interestTracker.app, s.id!)}>
+                    <td>{s.interest_rate}%</td>
+                    <td>{s.interest_start_date || '\u2014'}</td>
+                    <td>{s.interest_end_date || '\u2014'}</td>
+                    <td>{formatCurrency(s.amount_due)}</td>
+                    <td>{formatDate(s.request_date)}</td>
+                    <td><span className={`status ${statusClass(s.completion_status)}`}>{s.completion_status}</span></td>
+                    <td>{s.created_by}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
 
-  const closeDetail = () => {
-    setDetailIndex(null);
-    setEditMode(false);
-  };
+function WellView({ wellCode, onBack, onOpen }: {
+  wellCode: string;
+  onBack: () => void;
+  onOpen: (app: AppView, id: string) => void;
+}) {
+  const { profile, error } = useProfile<WellProfile>(`/api/well-360?well=${encodeURIComponent(wellCode)}`);
 
-  // Close modal on Escape
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') closeDetail(); };
-    document.addEventListener('keydown', handler);
-    return () => document.removeEventListener('keydown', handler);
-  }, []);
+  if (!profile) {
+    return (
+      <div className="submissions-card">
+        <div className="empty-state">{error || 'Loading...'}</div>
+      </div>
+    );
+  }
 
-  const detailSub = detailIndex !== null ? submissions[detailIndex] : null;
+  const tracker = TRACKERS.transfer_log;
+  const form = tracker.form;
+  // The well itself is in the header, so the table starts from the other fields
+  const columns = form.fields.filter((f) => !f.hidden && !f.profile);
+  const groups = ACCOUNTING_GROUPS;
 
   return (
-    <>
+    <div className="profile-view">
       <div className="submissions-card">
-        <div className="form-card-accent" />
         <div className="submissions-header">
-          <h2>Submissions</h2>
-          <span className="submissions-count">
-            {filtered.length} of {submissions.length}
-          </span>
-          <button className="upload-spreadsheet-btn" onClick={() => setShowUploadModal(true)}>
-            Upload Spreadsheet
-          </button>
+          <button className="cancel-edit-btn" onClick={onBack}>← Back</button>
+          <h2>Well {profile.well_code}{profile.well_name ? ` – ${profile.well_name}` : ''}</h2>
+          {profile.search_key && <span className="submissions-count">{profile.search_key}</span>}
         </div>
-
-        {/* Bulk bar */}
-        {selectedRows.size > 0 && (
-          <div className="bulk-bar">
-            <span className="bulk-count">{selectedRows.size} selected</span>
-            <select
-              className="bulk-select"
-              value={bulkStatus}
-              onChange={(e) => setBulkStatus(e.target.value)}
-            >
-              <option value="">Change status to...</option>
-              <option value="Pending">Pending</option>
-              <option value="Complete">Complete</option>
-              <option value="Request Invalidated">Request Invalidated</option>
-            </select>
-            <button
-              className="bulk-apply"
-              disabled={!bulkStatus}
-              onClick={applyBulk}
-            >
-              Apply
-            </button>
-            <button className="bulk-cancel" onClick={clearSelection}>
-              Cancel
-            </button>
-          </div>
-        )}
-
-        {/* Filters */}
-        <div className="filters-bar">
-          <div className="filter-group">
-            <span className="filter-label">Search</span>
-            <input
-              className="filter-input"
-              placeholder="Owner # or Check #"
-              value={filters.search}
-              onChange={(e) => setFilters((f) => ({ ...f, search: e.target.value }))}
-            />
-          </div>
-          <div className="filter-group">
-            <span className="filter-label">Status</span>
-            <select
-              className="filter-select"
-              value={filters.status}
-              onChange={(e) => setFilters((f) => ({ ...f, status: e.target.value }))}
-            >
-              <option value="">All Statuses</option>
-              <option value="Pending">Pending</option>
-              <option value="Complete">Complete</option>
-              <option value="Request Invalidated">Request Invalidated</option>
-            </select>
+        <div className="profile-stats">
+          <div className="profile-stat">
+            <div className="detail-label">{tracker.title}</div>
+            <div className="profile-stat-value">{profile.transfers.length}</div>
           </div>
-          <div className="filter-group">
-            <span className="filter-label">Created By</span>
-            <select
-              className="filter-select"
-              value={filters.createdBy}
-              onChange={(e) => setFilters((f) => ({ ...f, createdBy: e.target.value }))}
-            >
-              <option value="">All Users</option>
-              {uniqueUsers.map((u) => (
-                <option key={u} value={u}>
-                  {u.split('@')[0]}
-                </option>
+          {groups.map((group) => (
+            <div key={group} className="profile-stat">
+              <div className="detail-label">{group}</div>
+              <div className="profile-stat-value">{profile.transfers.filter((t) => t.accounting_group === group).length}</div>
+            </div>
+          ))}
+        </div>
+        <div className="profile-attributes">
+          {profile.attributes_error ? (
+            <div className="empty-state">Couldn&apos;t load well attributes from Snowflake.</div>
+          ) : !profile.attributes ? (
+            <div className="empty-state">This cost center isn&apos;t in DIM_WELL.</div>
+          ) : (
+            <div className="detail-grid">
+              {Object.entries(profile.attributes).map(([key, value]) => (
+                <div key={key} className="detail-field">
+                  <div className="detail-label">{formatFieldName(key.toLowerCase())}</div>
+                  <div className="detail-value">{value === null || value === '' ? '—' : String(value)}</div>
+                </div>
               ))}
-            </select>
-          </div>
-          <div className="filter-divider" />
-          <div className="filter-group">
-            <span className="filter-label">Request Date From</span>
-            <input
-              type="date"
-              className="filter-input filter-date"
-              value={filters.dateFrom}
-              onChange={(e) => setFilters((f) => ({ ...f, dateFrom: e.target.value }))}
-            />
-          </div>
-          <div className="filter-group">
-            <span className="filter-label">Request Date To</span>
-            <input
-              type="date"
-              className="filter-input filter-date"
-              value={filters.dateTo}
-              onChange={(e) => setFilters((f) => ({ ...f, dateTo: e.target.value }))}
-            />
-          </div>
-          <button className="filter-clear" onClick={clearFilters}>
-            Clear All
-          </button>
-          <button className="export-btn" onClick={() => {
-            const headers = ['Check #', 'Check Amount', 'Owner #', 'Owner Name', 'Check Date', 'Request Source', 'Notes', 'Request Date', 'Completion Status', 'Sign-Off Date', 'Created By'];
-            const rows = filtered.map((s) => [
-              s.check_number,
-              formatCurrency(s.check_amount),
-              s.owner_number,
-              s.owner_name || '',
-              formatDate(s.check_date),
-              s.request_source || '',
-              s.notes || '',
-              formatDate(s.request_date),
-              s.completion_status,
-              formatDate(s.sign_off_date),
-              s.created_by,
-            ]);
-            exportToExcel('void-checks.xlsx', headers, rows, [
-              { col: 8, options: ['Pending', 'Complete', 'Request Invalidated'] },
-            ]);
-          }}>
-            Export
-          </button>
+            </div>
+          )}
         </div>
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Status</th>
+                {groups.map((group) => <th key={group}>{group}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {profile.totals.map((t) => (
+                <tr key={t.status}>
+                  <td><span className={`status ${statusClass(t.status)}`}>{t.status}</span></td>
+                  {groups.map((group) => <td key={group}>{t.counts[group] || 0}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
 
-        {/* Active filter tags */}
-        {activeFilterTags.length > 0 && (
-          <div className="active-filters">
-            {activeFilterTags.map((t) => (
-              <span key={t.key} className="filter-tag">
-                {t.label}
-                <button
-                  className="filter-tag-remove"
-                  onClick={() => setFilters((f) => ({ ...f, [t.key]: '' }))}
-                >
-                  ×
-                </button>
-              </span>
-            ))}
-          </div>
-        )}
-
-        {/* Table */}
-        {loading ? (
-          <div className="empty-state"><p>Loading submissions...</p></div>
-        ) : filtered.length === 0 ? (
-          <div className="empty-state">
-            <p>{submissions.length ? 'No submissions match your filters' : 'No submissions yet'}</p>
-          </div>
+      <div className="submissions-card">
+        <div className="submissions-header">
+          <h2>{tracker.title} History</h2>
+          <span className="submissions-count">{profile.transfers.length}</span>
+        </div>
+        {profile.transfers.length === 0 ? (
+          <div className="empty-state">No transfer log requests for this well.</div>
         ) : (
           <div className="table-wrapper">
             <table>
               <thead>
                 <tr>
-                  <th>
-                    <input
-                      type="checkbox"
-                      className="row-checkbox"
-                      checked={allSelected}
-                      ref={(el) => { if (el) el.indeterminate = someSelected && !allSelected; }}
-                      onChange={toggleAll}
-                    />
-                  </th>
-                  <th>#</th>
-                  <th>Check #</th>
-                  <th>Check Amount</th>
-                  <th>Owner #</th>
-                  <th>Owner Name</th>
-                  <th>Check Date</th>
-                  <th>Request Source</th>
-                  <th style={{ width: notesWidth, minWidth: 80 }}>
-                    Notes
-                    <span
-                      className="col-resize-handle"
-                      onMouseDown={onNotesResizeStart}
-                    />
-                  </th>
+                  {columns.map((f) => <th key={f.name}>{f.label}</th>)}
+                  <th>Notes</th>
                   <th>Request Date</th>
                   <th>Completion Status</th>
                   <th>Sign-Off Date</th>
                   <th>Created By</th>
-                  <th>Attachments</th>
                 </tr>
               </thead>
               <tbody>
-                {filtered.map((s, i) => {
-                  const ac = s.attachments?.length || 0;
-                  return (
-                    <tr key={s.id}>
-                      <td onClick={(e) => e.stopPropagation()}>
-                        <input
-                          type="checkbox"
-                          className="row-checkbox"
-                          checked={selectedRows.has(s.id!)}
-                          onChange={() => toggleRow(s.id!)}
-                        />
-                      </td>
-                      <td style={{ color: 'var(--text-muted)' }} onClick={() => openDetail(submissions.indexOf(s))}>{i + 1}</td>
-                      <td style={{ fontWeight: 600 }} onClick={() => openDetail(submissions.indexOf(s))}>{s.check_number}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatCurrency(s.check_amount)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.owner_number}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.owner_name || '\u2014'}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.check_date)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.request_source || '—'}</td>
-                      <td
-                        className="cell-truncate"
-                        style={{ maxWidth: notesWidth }}
-                        onClick={() => openDetail(submissions.indexOf(s))}
-                        title={s.notes || ''}
-                      >
-                        {s.notes || '—'}
-                      </td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.request_date)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>
-                        <span className={`status ${statusClass(s.completion_status)}`}>
-                          {s.completion_status}
-                        </span>
-                      </td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.sign_off_date)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.created_by}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>
-                        {ac > 0 ? `📎 ${ac}` : '—'}
-                      </td>
-                    </tr>
-                  );
-                })}
+                {profile.transfers.map((s) => (
+                  <tr key={s.id} onClick={() => onOpen(tracker.app, s.id!)}>
+                    {columns.map((f) => <td key={f.name}>{formatField(f, s)}</td>)}
+                    <td className="cell-truncate" style={{ maxWidth: 260 }} title={s.notes || ''}>{s.notes || '—'}</td>
+                    <td>{formatDate(s.request_date)}</td>
+                    <td><span className={`status ${statusClass(s.completion_status)}`}>{s.completion_status}</span></td>
+                    <td>{formatDate(s.sign_off_date)}</td>
+                    <td>{s.created_by}</td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
         )}
       </div>
+    </div>
+  );
+}
 
-      {/* Detail / Edit Modal */}
-      {detailSub && (
-        <div className="modal-overlay" onClick={(e) => { if (e.target === e.currentTarget) closeDetail(); }}>
-          <div className="modal">
-            <div className="modal-header">
-              <h2>
-                {editMode
-                  ? `Editing Entry – Check ${detailSub.check_number}`
-                  : `Entry Detail – Check ${detailSub.check_number}`}
-              </h2>
-              <div className="modal-actions">
-                {editMode ? (
-                  <>
-                    <button className="save-btn" onClick={saveEdit}>Save</button>
-                    <button className="cancel-edit-btn" onClick={() => setEditMode(false)}>Cancel</button>
-                  </>
-                ) : (
-                  <>
-                    <button className="delete-btn" onClick={() => handleDelete(detailSub)}>🗑 Delete</button>
-                    <button className="edit-btn" onClick={() => startEdit(detailSub)}>✎ Edit</button>
-                  </>
-                )}
-                <button className="modal-close" onClick={closeDetail}>×</button>
-              </div>
+/* ============================================================
+   Dashboard — queue metrics for every tracker
+   ============================================================ */
+function DashboardView({ onOpenList }: { onOpenList: (app: TrackerApp, query?: string) => void }) {
+  const [metrics, setMetrics] = useState<TrackerMetrics[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/dashboard');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load dashboard');
+        setMetrics(data);
+      } catch (err: any) {
+        console.error('Dashboard load error:', err);
+        setError(err.message || 'Failed to load dashboard');
+      }
+    };
+    load();
+  }, []);
+
+  if (!metrics) {
+    return (
+      <div className="submissions-card">
+        <div className="empty-state">{error || 'Loading...'}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dashboard">
+      {metrics.map((m) => {
+        const total = m.statuses.reduce((sum, s) => sum + s.count, 0);
+        const weekMax = Math.max(1, ...m.weekly.map((w) => Math.max(w.submitted, w.completed)));
+        const agingMax = Math.max(1, ...m.pending_aging.map((b) => b.count));
+        return (
+          <div key={m.table} className="submissions-card">
+            <div className="submissions-header">
+              <h2>{TRACKERS[m.table as WorkflowTable].icon} {m.title}</h2>
+              <span className="submissions-count">{total} total</span>
+              <button className="export-btn" style={{ marginLeft: 'auto' }} onClick={() => onOpenList(m.app)}>
+                📋 Submissions
+              </button>
             </div>
-            <div className="modal-body">
-              {editMode ? (
-                <div className="detail-grid">
-                  <div className="detail-field">
-                    <div className="detail-label">Check Number</div>
-                    <SearchDropdown
-                      placeholder="Search check..."
-                      value={editData.check_number || ''}
-                      displayValue={editData.check_number || ''}
-                      onChange={(val) => setEditData((d) => ({ ...d, check_number: val }))}
-                      fetchUrl="/api/checks"
-                      mapResult={(d) => d}
-                      renderOption={(item: any) => (
-                        <>
-                          <span className="search-option-number">{item.check_number}</span>
-                          <span className="search-option-name">{item.check_description}</span>
-                        </>
-                      )}
-                    />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Check Amount</div>
-                    <input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      className="edit-input"
-                      value={editData.check_amount?.toFixed(2) || ''}
-                      onChange={(e) => {
-                        let v = parseFloat(e.target.value);
-                        if (v < 0) v = Math.abs(v);
-                        setEditData((d) => ({ ...d, check_amount: v }));
-                      }}
-                    />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Owner</div>
-                    <SearchDropdown
-                      placeholder="Search owner..."
-                      value={editData.owner_number || ''}
-                      displayValue={editData.owner_name ? `${editData.owner_number} \u2013 ${editData.owner_name}` : editData.owner_number || ''}
-                      onChange={(val) => setEditData((d) => ({ ...d, owner_number: val, owner_name: '' }))}
-                      onSelect={(item: any) => setEditData((d) => ({ ...d, owner_number: item.owner_number, owner_name: item.owner_name || '' }))}
-                      fetchUrl="/api/owners"
-                      mapResult={(d) => d}
-                      renderOption={(item: any) => (
-                        <>
-                          <span className="search-option-number">{item.owner_number}</span>
-                          <span className="search-option-name">{item.owner_name}</span>
-                        </>
-                      )}
-                    />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Check Date</div>
-                    <input
-                      type="date"
-                      className="edit-input"
-                      value={editData.check_date || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, check_date: e.target.value }))}
-                    />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Request Source</div>
-                    <select
-                      className="edit-input"
-                      value={editData.request_source || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, request_source: e.target.value }))}
-                    >
-                      <option value="" disabled>Select a source...</option>
-                      <option value="Returned Check">Returned Check</option>
-                      <option value="Void Request">Void Request</option>
-                    </select>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Request Date</div>
-                    <div className="detail-value" style={{ paddingTop: 8 }}>
-                      {formatDate(detailSub.request_date)}
-                    </div>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Created By</div>
-                    <div className="detail-value" style={{ paddingTop: 8 }}>
-                      {detailSub.created_by}
-                    </div>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Sign-Off Date</div>
-                    <div className="detail-value" style={{ paddingTop: 8 }}>
-                      {formatDate(detailSub.sign_off_date)}
-                    </div>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Completion Status</div>
-                    <select
-                      className="edit-input"
-                      value={editData.completion_status || 'Pending'}
-                      onChange={(e) =>
-                        setEditData((d) => ({
-                          ...d,
-                          completion_status: e.target.value as any,
-                        }))
-                      }
-                    >
-                      <option value="Pending">Pending</option>
-                      <option value="Complete">Complete</option>
-                      <option value="Request Invalidated">Request Invalidated</option>
-                    </select>
-                  </div>
-                  <div className="detail-field full">
-                    <div className="detail-label">Notes</div>
-                    <textarea
-                      className="edit-textarea"
-                      value={editData.notes || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, notes: e.target.value }))}
-                    />
-                  </div>
-                  <div className="detail-field full">
-                    <div className="detail-label">Attachments</div>
-                    {editAttachments.length === 0 ? (
-                      <p className="attach-empty">No attachments</p>
-                    ) : (
-                      <div className="attach-list">
-                        {editAttachments.map((f, i) => (
-                          <div key={i} className="attach-item">
-                            <span>📎 {f}</span>
-                            <button
-                              type="button"
-                              className="attach-remove"
-                              onClick={() => setEditAttachments((p) => p.filter((_, j) => j !== i))}
-                            >
-                              ×
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                    <input
-                      ref={editFileRef}
-                      type="file"
-                      multiple
-                      onChange={(e) => {
-                        if (e.target.files) {
-                          setEditAttachments((p) => [
-                            ...p,
-                            ...Array.from(e.target.files!).map((f) => f.name),
-                          ]);
-                        }
-                        if (editFileRef.current) editFileRef.current.value = '';
-                      }}
-                      style={{ display: 'none' }}
-                    />
-                    <button
-                      type="button"
-                      className="attach-btn"
-                      style={{ marginTop: 8 }}
-                      onClick={() => editFileRef.current?.click()}
-                    >
-                      📎 Attach file
-                    </button>
-                  </div>
+            <div className="dashboard-body">
+              <div className="dashboard-panel">
+                <div className="detail-label">By Status</div>
+                {m.statuses.map((s) => (
+                  <button
+                    key={s.status}
+                    className="dashboard-row dashboard-link"
+                    title={`Show ${s.status} requests`}
+                    onClick={() => onOpenList(m.app, listParams({ status: s.status }))}
+                  >
+                    <span className={`status ${statusClass(s.status)}`}>{s.status}</span>
+                    <span className="dashboard-count">{s.count}</span>
+                  </button>
+                ))}
+                <div className="dashboard-row">
+                  <span className="detail-label">Avg. Days to Sign-Off</span>
+                  <span className="dashboard-count">{m.avg_days_to_sign_off ?? '—'}</span>
                 </div>
-              ) : (
-                <>
-                  <div className="detail-grid">
-                    <div className="detail-field">
-                      <div className="detail-label">Check Number</div>
-                      <div className="detail-value" style={{ fontWeight: 600 }}>
-                        {detailSub.check_number}
-                      </div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Check Amount</div>
-                      <div className="detail-value">{formatCurrency(detailSub.check_amount)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Owner</div>
-                      <div className="detail-value">{detailSub.owner_name ? `${detailSub.owner_number} \u2013 ${detailSub.owner_name}` : detailSub.owner_number}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Check Date</div>
-                      <div className="detail-value">{formatDate(detailSub.check_date)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Request Source</div>
-                      <div className="detail-value">{detailSub.request_source || '—'}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Request Date</div>
-                      <div className="detail-value">{formatDate(detailSub.request_date)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Created By</div>
-                      <div className="detail-value">{detailSub.created_by}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Sign-Off Date</div>
-                      <div className="detail-value">{formatDate(detailSub.sign_off_date)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Completion Status</div>
-                      <div className="detail-value">
-                        <span className={`status ${statusClass(detailSub.completion_status)}`}>
-                          {detailSub.completion_status}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="detail-field full">
-                      <div className="detail-label">Notes</div>
-                      <div className={`detail-notes ${detailSub.notes ? '' : 'empty'}`}>
-                        {detailSub.notes || 'No notes provided'}
-                      </div>
-                    </div>
-                    <div className="detail-field full">
-                      <div className="detail-label">Attachments</div>
-                      {detailSub.attachments?.length ? (
-                        <div className="detail-attachments">
-                          {detailSub.attachments.map((a, i) => {
-                            const fileName = a.split('/').pop() || a;
-                            // Strip leading timestamp prefix (e.g. "1234567890-") from display name
-                            const displayName = fileName.replace(/^\d+-/, '');
-                            return (
-                              <div
-                                key={i}
-                                className="detail-attach-item"
-                                onClick={async () => {
-                                  try {
-                                    const res = await fetch(`/api/download?path=${encodeURIComponent(a)}`);
-                                    const data = await res.json();
-                                    if (data.url) {
-                                      window.open(data.url, '_blank');
-                                    } else {
-                                      alert('Failed to get download link.');
-                                    }
-                                  } catch {
-                                    alert('Failed to open file.');
-                                  }
-                                }}
-                              >
-                                📎 {displayName}
-                                <span className="attach-dl">Open ↗</span>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      ) : (
-                        <span style={{ color: 'var(--text-muted)', fontStyle: 'italic', fontSize: 13 }}>
-                          No attachments
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                  <div className="detail-status-row">
-                    <label>Update Status:</label>
-                    <select
-                      className="detail-status-select"
-                      value={detailSub.completion_status}
-                      onChange={(e) => {
-                        handleStatusChange(detailSub.id!, e.target.value);
-                      }}
-                    >
-                      <option value="Pending">Pending</option>
-                      <option value="Complete">Complete</option>
-                      <option value="Request Invalidated">Request Invalidated</option>
-                    </select>
-                  </div>
-                </>
-              )}
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Upload Spreadsheet Modal */}
-      {showUploadModal && (
-        <div className="modal-overlay" onClick={(e) => { if (e.target === e.currentTarget) closeUploadModal(); }}>
-          <div className="modal" style={{ maxWidth: 680 }}>
-            <div className="modal-header">
-              <h2>Upload Spreadsheet</h2>
-              <div className="modal-actions">
-                <button className="modal-close" onClick={closeUploadModal}>×</button>
               </div>
-            </div>
-            <div className="modal-body">
 
-              {/* Phase 1: File Selection */}
-              {!uploadPreview && !uploadResult && (
-                <div>
-                  <p style={{ marginBottom: 16, color: 'var(--text-secondary)', fontSize: 13 }}>
-                    Upload the Excel report to update <strong>Notes</strong> and <strong>Completion Status</strong> for matching records.
-                  </p>
-                  <input
-                    ref={uploadFileRef}
-                    type="file"
-                    accept=".xlsx,.xls"
-                    onChange={(e) => { setUploadFile(e.target.files?.[0] || null); setUploadError(null); }}
-                  />
-                  {uploadError && <p style={{ color: 'var(--danger, #e74c3c)', marginTop: 8, fontSize: 13 }}>{uploadError}</p>}
-                  <div style={{ marginTop: 16 }}>
-                    <button className="submit-btn" disabled={!uploadFile || uploadLoading} onClick={handleUploadPreview}>
-                      {uploadLoading ? 'Parsing...' : 'Upload & Preview'}
-                    </button>
+              <div className="dashboard-panel">
+                <div className="detail-label">Pending Aging</div>
+                {m.pending_aging.map((b) => (
+                  <div key={b.label} className="dashboard-row">
+                    <span className="dashboard-bar-label">{b.label}</span>
+                    <span className="dashboard-bar-track">
+                      <span className="dashboard-bar aging" style={{ width: `${(b.count / agingMax) * 100}%` }} />
+                    </span>
+                    <span className="dashboard-count">{b.count}</span>
                   </div>
-                </div>
-              )}
+                ))}
+              </div>
 
-              {/* Phase 2: Preview */}
-              {uploadPreview && !uploadResult && (
-                <div>
-                  {uploadPreview.updates.length > 0 ? (
-                    <>
-                      <p style={{ marginBottom: 12, fontSize: 13 }}>
-                        <strong>{uploadPreview.updates.length}</strong> record(s) will be updated:
-                      </p>
-                      <div style={{ maxHeight: 320, overflowY: 'auto' }}>
-                        <table className="upload-preview-table">
-                          <thead>
-                            <tr>
-                              <th>Check #</th>
-                              <th>Field</th>
-                              <th>Current</th>
-                              <th>New</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {uploadPreview.updates.flatMap((u: any) =>
-                              Object.entries(u.changes).map(([field, change]: [string, any]) => (
-                                <tr key={`${u.id}-${field}`}>
-                                  <td>{u.checkNumber}</td>
-                                  <td>{field === 'completion_status' ? 'Status' : 'Notes'}</td>
-                                  <td><span className="upload-change-from">{change.from || '(empty)'}</span></td>
-                                  <td><span className="upload-change-to">{change.to || '(empty)'}</span></td>
-                                </tr>
-                              ))
-                            )}
-                          </tbody>
-                        </table>
+              <div className="dashboard-panel wide">
+                <div className="detail-label">
+                  Weekly Throughput
+                  <span className="dashboard-legend submitted">Submitted</span>
+                  <span className="dashboard-legend completed">Signed off</span>
+                </div>
+                <div className="dashboard-weeks">
+                  {m.weekly.map((w) => (
+                    <div key={w.week} className="dashboard-week" title={`Week of ${formatDate(w.week)}: ${w.submitted} submitted, ${w.completed} signed off`}>
+                      <div className="dashboard-week-bars">
+                        <span className="dashboard-column submitted" style={{ height: `${(w.submitted / weekMax) * 100}%` }} />
+                        <span className="dashboard-column completed" style={{ height: `${(w.completed / weekMax) * 100}%` }} />
                       </div>
-                    </>
-                  ) : (
-                    <p style={{ fontSize: 13, color: 'var(--text-muted)' }}>No changes detected in the spreadsheet.</p>
-                  )}
-
-                  {uploadPreview.warnings.length > 0 && (
-                    <div className="upload-warnings">
-                      <strong>Warnings ({uploadPreview.warnings.length})</strong>
-                      {uploadPreview.warnings.map((w: any, i: number) => (
-                        <div key={i} className="upload-warning-item">Row {w.row}: {w.message}</div>
-                      ))}
+                      <span className="dashboard-week-label">{w.week.slice(5).replace('-', '/')}</span>
                     </div>
-                  )}
-
-                  {uploadPreview.skipped.length > 0 && (
-                    <p style={{ fontSize: 12, color: 'var(--text-muted)', marginTop: 8 }}>
-                      {uploadPreview.skipped.length} row(s) skipped (no changes).
-                    </p>
-                  )}
-
-                  {uploadError && <p style={{ color: 'var(--danger, #e74c3c)', marginTop: 8, fontSize: 13 }}>{uploadError}</p>}
-
-                  <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
-                    {uploadPreview.updates.length > 0 && (
-                      <button className="submit-btn" disabled={uploadLoading} onClick={handleUploadApply}>
-                        {uploadLoading ? 'Applying...' : `Apply ${uploadPreview.updates.length} Change${uploadPreview.updates.length > 1 ? 's' : ''}`}
-                      </button>
-                    )}
-                    <button className="cancel-edit-btn" onClick={closeUploadModal}>Cancel</button>
-                  </div>
+                  ))}
                 </div>
-              )}
+              </div>
 
-              {/* Phase 3: Result */}
-              {uploadResult && (
-                <div>
-                  <p style={{ fontSize: 14, marginBottom: 8 }}>
-                    <strong>{uploadResult.applied.length}</strong> record(s) updated successfully.
-                  </p>
-                  {uploadResult.errors.length > 0 && (
-                    <p style={{ color: 'var(--danger, #e74c3c)', fontSize: 13 }}>
-                      {uploadResult.errors.length} error(s) occurred.
-                    </p>
-                  )}
-                  {uploadResult.warnings.length > 0 && (
-                    <p style={{ color: '#e67e22', fontSize: 13 }}>
-                      {uploadResult.warnings.length} warning(s).
-                    </p>
-                  )}
-                  <button className="submit-btn" style={{ marginTop: 16 }} onClick={() => {
-                    closeUploadModal();
-                    fetchSubmissions();
-                  }}>
-                    Done
-                  </button>
-                </div>
-              )}
+              <div className="dashboard-panel">
+                <div className="detail-label">Sign-Offs by Processor</div>
+                {m.processors.length === 0 ? (
+                  <div className="dashboard-empty">No sign-offs in the last {m.weekly.length} weeks</div>
+                ) : (
+                  m.processors.map((p) => (
+                    <div key={p.processor} className="dashboard-row">
+                      <span className="cell-truncate" title={p.processor}>{p.processor}</span>
+                      <span className="dashboard-count">{p.completed}</span>
+                    </div>
+                  ))
+                )}
+              </div>
             </div>
           </div>
-        </div>
-      )}
-    </>
+        );
+      })}
+    </div>
   );
 }
 
 /* ============================================================
-   Interest Tracker — New Entry Form
+   Email Outbox — failed and queued notification emails (Admin)
    ============================================================ */
-function InterestTrackerForm({ onSuccess, userEmail }: { onSuccess: () => void; userEmail: string }) {
-  const [ownerNumber, setOwnerNumber] = useState('');
-  const [ownerName, setOwnerName] = useState('');
-  const [ownerDisplay, setOwnerDisplay] = useState('');
-  const [interestRate, setInterestRate] = useState('');
-  const [interestStartDate, setInterestStartDate] = useState('');
-  const [interestEndDate, setInterestEndDate] = useState('');
-  const [amountDue, setAmountDue] = useState('');
-  const [notes, setNotes] = useState('');
-  const [attachments, setAttachments] = useState<File[]>([]);
-  const [submitting, setSubmitting] = useState(false);
-  const [showSuccess, setShowSuccess] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+const OUTBOX_STATUSES: { status: OutboxStatus; label: string; className: string }[] = [
+  { status: 'dead', label: 'Failed', className: 'invalidated' },
+  { status: 'pending', label: 'Queued', className: 'pending' },
+  { status: 'sent', label: 'Sent', className: 'complete' },
+];
+
+function OutboxView() {
+  const [status, setStatus] = useState<OutboxStatus>('dead');
+  const [emails, setEmails] = useState<OutboxEmail[] | null>(null);
+  const [error, setError] = useState('');
+  const [resending, setResending] = useState<string | null>(null);
 
-  const mapOwners = useCallback((data: any[]) => data, []);
+  useEffect(() => {
+    const load = async () => {
+      setEmails(null);
+      setError('');
+      try {
+        const res = await fetch(`/api/admin/email-outbox?status=${status}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load email outbox');
+        setEmails(data);
+      } catch (err: any) {
+        console.error('Email outbox load error:', err);
+        setError(err.message || 'Failed to load email outbox');
+      }
+    };
+    load();
+  }, [status]);
 
-  const sanitizeRate = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let val = parseFloat(e.target.value);
-    if (val < 0) val = Math.abs(val);
-    if (val > 100) val = 100;
-    setInterestRate(e.target.value);
+  const resend = async (id: string) => {
+    setResending(id);
+    try {
+      const res = await fetch('/api/admin/email-outbox', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to resend email');
+      // A failed resend goes back in the queue for the worker to retry
+      setEmails((list) => list && (data.status === status
+        ? list.map((e) => (e.id === id ? data : e))
+        : list.filter((e) => e.id !== id)));
+      if (data.status !== 'sent') alert(`Resend failed and will be retried: ${data.last_error || 'unknown error'}`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to resend email');
+    } finally {
+      setResending(null);
+    }
   };
 
-  const sanitizeAmount = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = parseFloat(e.target.value);
-    if (val < 0) e.target.value = Math.abs(val).toString();
-    setAmountDue(e.target.value);
-  };
+  const current = OUTBOX_STATUSES.find((s) => s.status === status)!;
+
+  return (
+    <div className="submissions-card">
+      <div className="submissions-header">
+        <h2>✉ Email Outbox</h2>
+        {emails && <span className="submissions-count">{emails.length} {current.label.toLowerCase()}</span>}
+        <select
+          className="filter-select"
+          style={{ marginLeft: 'auto' }}
+          value={status}
+          onChange={(e) => setStatus(e.target.value as OutboxStatus)}
+        >
+          {OUTBOX_STATUSES.map((s) => (
+            <option key={s.status} value={s.status}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+      {!emails ? (
+        <div className="empty-state">{error || 'Loading...'}</div>
+      ) : emails.length === 0 ? (
+        <div className="empty-state">No {current.label.toLowerCase()} emails</div>
+      ) : (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Queued</th>
+                <th>Type</th>
+                <th>To</th>
+                <th>Subject</th>
+                <th>Status</th>
+                <th>Attempts</th>
+                <th>{status === 'sent' ? 'Sent' : 'Last Error'}</th>
+                {status !== 'sent' && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {emails.map((e) => (
+                <tr key={e.id}>
+                  <td>{formatDateTime(e.created_at)}</td>
+                  <td>{e.kind}</td>
+                  <td><span className="cell-truncate" title={e.to_address}>{e.to_address}</span></td>
+                  <td><span className="cell-truncate" title={e.subject}>{e.subject}</span></td>
+                  <td><span className={`status ${current.className}`}>{current.label}</span></td>
+                  <td>{e.attempts}</td>
+                  <td>
+                    {status === 'sent'
+                      ? e.sent_at && formatDateTime(e.sent_at)
+                      : <span className="cell-truncate" title={e.last_error || ''}>{e.last_error || '—'}</span>}
+                  </td>
+                  {status !== 'sent' && (
+                    <td>
+                      <button className="export-btn" disabled={resending !== null} onClick={() => resend(e.id)}>
+                        {resending === e.id ? 'Sending...' : 'Resend'}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
 
-  const formatAmount = (e: React.FocusEvent<HTMLInputElement>) => {
-    if (e.target.value) {
-      const val = Math.abs(parseFloat(e.target.value));
-      if (isNaN(val)) { setAmountDue(''); return; }
-      setAmountDue(val.toFixed(2));
+/* ============================================================
+   Email Templates — Admin overrides of email wording
+   ============================================================ */
+function TemplatesView() {
+  const [templates, setTemplates] = useState<EmailTemplateInfo[] | null>(null);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState('');
+  const [draft, setDraft] = useState({ subject: '', heading: '', intro: '' });
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/email-templates');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load email templates');
+      setTemplates(data);
+    } catch (err: any) {
+      console.error('Email templates load error:', err);
+      setError(err.message || 'Failed to load email templates');
     }
-  };
+  }, []);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  useEffect(() => {
+    load();
+  }, [load]);
 
-    if (!ownerNumber) { alert('Please select an Owner'); return; }
-    if (!interestRate) { alert('Please enter % Interest Charged'); return; }
-    if (!interestStartDate) { alert('Please enter Interest Start Date'); return; }
-    if (!interestEndDate) { alert('Please enter Interest End Date'); return; }
-    const amt = amountDue ? parseFloat(amountDue) : NaN;
-    if (amountDue && (isNaN(amt) || amt < 0)) { alert('Please enter a valid Amount of Late Payment'); return; }
+  const template = templates?.find((t) => t.name === selected);
 
-    setSubmitting(true);
-    try {
-      let uploadedPaths: string[] = [];
-      if (attachments.length > 0) {
-        const formData = new FormData();
-        attachments.forEach((f) => formData.append('files', f));
-        formData.append('folder', 'interest-tracker');
-        const uploadRes = await fetch('/api/upload', { method: 'POST', body: formData });
-        if (!uploadRes.ok) throw new Error('Failed to upload attachments');
-        const uploadData = await uploadRes.json();
-        uploadedPaths = uploadData.paths;
-      }
+  // Start from the saved override each time a template is picked
+  useEffect(() => {
+    setDraft({
+      subject: template?.override?.subject || '',
+      heading: template?.override?.heading || '',
+      intro: template?.override?.intro || '',
+    });
+    setErrors({});
+  }, [template]);
 
-      const res = await fetch('/api/interest-tracker', {
-        method: 'POST',
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/email-templates', {
+        method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          owner_number: ownerNumber,
-          owner_name: ownerName,
-          interest_rate: interestRate,
-          interest_start_date: interestStartDate,
-          interest_end_date: interestEndDate,
-          amount_due: amountDue,
-          notes,
-          attachments: uploadedPaths,
-          created_by: userEmail,
-        }),
+        body: JSON.stringify({ name: selected, ...draft }),
       });
+      const data = await res.json();
+      if (!res.ok) {
+        setErrors(data.fields || {});
+        throw new Error(data.error || 'Failed to save email template');
+      }
+      await load();
+    } catch (err: any) {
+      alert(err.message || 'Failed to save email template');
+    } finally {
+      setSaving(false);
+    }
+  };
 
-      if (!res.ok) throw new Error('Failed to submit');
-
-      setShowSuccess(true);
-      setTimeout(() => {
-        setShowSuccess(false);
-        setOwnerNumber(''); setOwnerName(''); setOwnerDisplay('');
-        setInterestRate(''); setInterestStartDate(''); setInterestEndDate('');
-        setAmountDue(''); setNotes(''); setAttachments([]);
-        onSuccess();
-      }, 1800);
-    } catch (err) {
-      console.error('Submit error:', err);
-      alert('Failed to submit. Please try again.');
+  const reset = async () => {
+    if (!confirm('Revert this template to its default wording?')) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/email-templates?name=${encodeURIComponent(selected)}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || 'Failed to reset email template');
+      await load();
+    } catch (err: any) {
+      alert(err.message || 'Failed to reset email template');
     } finally {
-      setSubmitting(false);
+      setSaving(false);
     }
   };
 
-  return (
-    <>
-      <div className="form-card">
-        <div className="form-card-accent" />
-        <div className="form-card-body">
-          <h1 className="form-card-title">New Interest Tracker Entry</h1>
-          <p className="form-card-subtitle">Submitting as {userEmail}</p>
-
-          <form onSubmit={handleSubmit}>
-            {/* Owner */}
-            <div className="form-group">
-              <label className="form-label">
-                Owner # - Owner Name <span className="required">*</span>
-              </label>
-              <SearchDropdown
-                placeholder="Search by owner # or name..."
-                value={ownerNumber}
-                displayValue={ownerDisplay}
-                onChange={(val, display) => {
-                  setOwnerNumber(val);
-                  setOwnerDisplay(display);
-                  setOwnerName('');
-                }}
-                onSelect={(item: any) => {
-                  setOwnerNumber(item.owner_number || '');
-                  setOwnerName(item.owner_name || '');
-                  setOwnerDisplay(
-                    item.owner_name
-                      ? `${item.owner_number} \u2013 ${item.owner_name}`
-                      : item.owner_number || ''
-                  );
-                }}
-                fetchUrl="/api/owners"
-                mapResult={mapOwners}
-                renderOption={(item: any) => (
-                  <>
-                    <span className="search-option-number">{item.owner_number}</span>
-                    <span className="search-option-name">{item.owner_name}</span>
-                  </>
-                )}
-              />
-            </div>
-
-            {/* % Interest Charged */}
-            <div className="form-group">
-              <label className="form-label">
-                % Interest Charged <span className="required">*</span>
-              </label>
-              <input
-                type="number"
-                step="0.01"
-                min="0"
-                max="100"
-                className="form-input"
-                placeholder="e.g. 5.25"
-                value={interestRate}
-                onChange={sanitizeRate}
-                required
-              />
-            </div>
-
-            {/* Interest Start Date (Prod) */}
-            <div className="form-group">
-              <label className="form-label">
-                Interest Start Date (Prod) <span className="required">*</span>
-              </label>
-              <input
-                type="text"
-                className="form-input"
-                placeholder="Enter start date"
-                value={interestStartDate}
-                onChange={(e) => setInterestStartDate(e.target.value)}
-                required
-              />
-            </div>
-
-            {/* Interest End Date (Prod) */}
-            <div className="form-group">
-              <label className="form-label">
-                Interest End Date (Prod) <span className="required">*</span>
-              </label>
-              <input
-                type="text"
-                className="form-input"
-                placeholder="Enter end date"
-                value={interestEndDate}
-                onChange={(e) => setInterestEndDate(e.target.value)}
-                required
-              />
-            </div>
-
-            {/* Amount of Late Payment */}
-            <div className="form-group">
-              <label className="form-label">
-                Amount of Late Payment
-              </label>
-              <input
-                type="number"
-                step="0.01"
-                min="0"
-                className="form-input"
-                placeholder="0.00"
-                value={amountDue}
-                onChange={sanitizeAmount}
-                onBlur={formatAmount}
-              />
-            </div>
-
-            {/* Notes */}
-            <div className="form-group">
-              <label className="form-label">Notes</label>
-              <textarea
-                className="form-textarea"
-                placeholder="Input Notes"
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
-              />
-            </div>
+  if (!templates) {
+    return (
+      <div className="submissions-card">
+        <div className="empty-state">{error || 'Loading...'}</div>
+      </div>
+    );
+  }
 
-            {/* Attachments */}
-            <div className="attach-section">
-              <label className="form-label">Attachments</label>
-              {attachments.length === 0 ? (
-                <p className="attach-empty">There is nothing attached.</p>
+  return (
+    <div className="submissions-card">
+      <div className="submissions-header">
+        <h2>✎ Email Templates</h2>
+        <span className="submissions-count">{templates.filter((t) => t.override).length} customized</span>
+        <select
+          className="filter-select"
+          style={{ marginLeft: 'auto' }}
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+        >
+          <option value="">Choose a template...</option>
+          {templates.map((t) => (
+            <option key={t.name} value={t.name}>
+              {t.description}{t.override ? ' (customized)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+      {!template ? (
+        <div className="empty-state">Choose a template to change its subject, heading or intro. Blank fields use the default wording.</div>
+      ) : (
+        <div className="template-editor">
+          <div className="detail-label">
+            Placeholders: {template.variables.map((v) => (v.startsWith('<') ? v : `{{${v}}}`)).join(', ')}
+          </div>
+          {(['subject', 'heading', 'intro'] as const).map((key) => (
+            <div key={key} className="form-group">
+              <label className="form-label">{key[0].toUpperCase() + key.slice(1)}</label>
+              {key === 'intro' ? (
+                <textarea
+                  className="form-textarea"
+                  placeholder={template.defaults[key]}
+                  value={draft[key]}
+                  onChange={(e) => setDraft((d) => ({ ...d, [key]: e.target.value }))}
+                />
               ) : (
-                <div className="attach-list">
-                  {attachments.map((file, i) => (
-                    <div key={i} className="attach-item">
-                      <a
-                        href={URL.createObjectURL(file)}
-                        download={file.name}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        style={{ color: 'var(--primary)', textDecoration: 'none' }}
-                      >
-                        📎 {file.name}
-                      </a>
-                      <button
-                        type="button"
-                        className="attach-remove"
-                        onClick={() => setAttachments((p) => p.filter((_, j) => j !== i))}
-                      >
-                        ×
-                      </button>
-                    </div>
-                  ))}
-                </div>
+                <input
+                  className="form-input"
+                  placeholder={template.defaults[key]}
+                  value={draft[key]}
+                  onChange={(e) => setDraft((d) => ({ ...d, [key]: e.target.value }))}
+                />
               )}
-              <input
-                ref={fileInputRef}
-                type="file"
-                multiple
-                onChange={(e) => {
-                  const newFiles = e.target.files ? Array.from(e.target.files) : [];
-                  if (newFiles.length > 0) setAttachments((p) => [...p, ...newFiles]);
-                  if (fileInputRef.current) fileInputRef.current.value = '';
-                }}
-                style={{ display: 'none' }}
-              />
-              <button
-                type="button"
-                className="attach-btn"
-                onClick={() => fileInputRef.current?.click()}
-              >
-                📎 Attach file
-              </button>
+              <FieldError errors={errors} field={key} />
             </div>
-
-            <button type="submit" className="submit-btn" disabled={submitting}>
-              {submitting ? 'Submitting...' : 'Submit'}
+          ))}
+          <div className="template-actions">
+            {template.override && (
+              <span className="detail-label">
+                Last changed by {template.override.updated_by} on {formatDateTime(template.override.updated_at)}
+              </span>
+            )}
+            <button className="cancel-edit-btn" disabled={saving || !template.override} onClick={reset}>
+              Reset to Default
+            </button>
+            <button className="save-btn" disabled={saving} onClick={save}>
+              {saving ? 'Saving...' : 'Save'}
             </button>
-          </form>
-        </div>
-      </div>
-
-      {showSuccess && (
-        <div className="toast-overlay">
-          <div className="toast">
-            <div className="toast-icon">✓</div>
-            <h3>Submitted Successfully</h3>
-            <p>Your interest tracker entry is now pending.</p>
           </div>
         </div>
       )}
-    </>
+    </div>
   );
 }
 
 /* ============================================================
-   Interest Tracker — Submissions View
+   Main Page
    ============================================================ */
-function InterestTrackerSubmissionsView({ openId, onOpenIdHandled }: { openId?: string | null; onOpenIdHandled?: () => void }) {
-  const [submissions, setSubmissions] = useState<InterestTrackerSubmission[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<SubmissionFilters>({
-    search: '', status: '', createdBy: '', dateFrom: '', dateTo: '',
-  });
-  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
-  const [bulkStatus, setBulkStatus] = useState('');
-  const [detailIndex, setDetailIndex] = useState<number | null>(null);
-  const [editMode, setEditMode] = useState(false);
-  const [editData, setEditData] = useState<Partial<InterestTrackerSubmission>>({});
-  const [editAttachments, setEditAttachments] = useState<string[]>([]);
-  const editFileRef = useRef<HTMLInputElement>(null);
+const TRACKER_LIST = Object.values(TRACKERS);
 
-  // Notes column resize
-  const [notesWidth, setNotesWidth] = useState(200);
-  const resizeStartX = useRef(0);
-  const resizeStartW = useRef(0);
-
-  const onNotesResizeStart = useCallback((e: React.MouseEvent) => {
-    e.preventDefault();
-    resizeStartX.current = e.clientX;
-    resizeStartW.current = notesWidth;
-    const onMouseMove = (ev: MouseEvent) => {
-      const diff = ev.clientX - resizeStartX.current;
-      setNotesWidth(Math.max(80, resizeStartW.current + diff));
-    };
-    const onMouseUp = () => {
-      document.removeEventListener('mousemove', onMouseMove);
-      document.removeEventListener('mouseup', onMouseUp);
-      document.body.style.cursor = '';
-      document.body.style.userSelect = '';
-    };
-    document.body.style.cursor = 'col-resize';
-    document.body.style.userSelect = 'none';
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
-  }, [notesWidth]);
+type AdminView = 'outbox' | 'templates';
 
-  const fetchSubmissions = useCallback(async () => {
-    try {
-      const res = await fetch('/api/interest-tracker');
-      const data = await res.json();
-      if (Array.isArray(data)) setSubmissions(data);
-    } catch (err) {
-      console.error('Error fetching interest tracker submissions:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+// Admin-only pages listed in the menu after the trackers
+const ADMIN_VIEWS: Record<AdminView, { title: string; icon: string }> = {
+  outbox: { title: 'Email Outbox', icon: '✉' },
+  templates: { title: 'Email Templates', icon: '✎' },
+};
 
-  useEffect(() => { fetchSubmissions(); }, [fetchSubmissions]);
+export default function VoidChecksPage() {
+  const { data: session, status } = useSession();
+  const [activeApp, setActiveApp] = useState<AppView>('dashboard');
+  // Each app remembers its own tab
+  const [tabs, setTabs] = useState<Partial<Record<AppView, TabView>>>({});
+  const [menuOpen, setMenuOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [deepLinkId, setDeepLinkId] = useState<string | null>(null);
+  // Owner or well 360 page, shown in place of the active app
+  const [profile, setProfile] = useState<{ kind: ProfileKind; key: string } | null>(null);
 
-  // Auto-open detail from deep link
+  // Handle deep link URL params: ?app=<app>&id=xxx plus any list filters,
+  // which the submissions view reads and keeps in sync, or ?owner=<owner #> / ?well=<well code>
   useEffect(() => {
-    if (openId && submissions.length > 0 && !loading) {
-      const idx = submissions.findIndex((s) => s.id === openId);
-      if (idx !== -1) setDetailIndex(idx);
-      onOpenIdHandled?.();
-    }
-  }, [openId, submissions, loading, onOpenIdHandled]);
-
-  // Filtering
-  const filtered = submissions.filter((s) => {
-    if (filters.search) {
-      const q = filters.search.toLowerCase();
-      if (
-        !s.owner_number.toLowerCase().includes(q) &&
-        !(s.owner_name || '').toLowerCase().includes(q)
-      )
-        return false;
-    }
-    if (filters.status && s.completion_status !== filters.status) return false;
-    if (filters.createdBy && s.created_by !== filters.createdBy) return false;
-    if (filters.dateFrom) {
-      const rd = new Date(s.request_date).toISOString().slice(0, 10);
-      if (rd < filters.dateFrom) return false;
-    }
-    if (filters.dateTo) {
-      const rd = new Date(s.request_date).toISOString().slice(0, 10);
-      if (rd > filters.dateTo) return false;
+    const params = new URLSearchParams(window.location.search);
+    const app = params.get('app');
+    const id = params.get('id');
+    const owner = params.get('owner');
+    const well = params.get('well');
+    if (owner) setProfile({ kind: 'owner', key: owner });
+    else if (well) setProfile({ kind: 'well', key: well });
+    const tracker = TRACKER_LIST.find((t) => t.app === app);
+    if (tracker) {
+      setActiveApp(tracker.app);
+      setTabs((t) => ({ ...t, [tracker.app]: 'submissions' }));
+      if (id) setDeepLinkId(id);
+    } else if (app === 'outbox' || app === 'templates') {
+      setActiveApp(app);
     }
-    return true;
-  }).sort((a, b) => new Date(b.request_date).getTime() - new Date(a.request_date).getTime());
-
-  const uniqueUsers = [...new Set(submissions.map((s) => s.created_by))].sort();
-
-  const clearFilters = () =>
-    setFilters({ search: '', status: '', createdBy: '', dateFrom: '', dateTo: '' });
-
-  const activeFilterTags = [
-    filters.search && { label: `Search: ${filters.search}`, key: 'search' as const },
-    filters.status && { label: `Status: ${filters.status}`, key: 'status' as const },
-    filters.createdBy && { label: `By: ${filters.createdBy.split('@')[0]}`, key: 'createdBy' as const },
-    filters.dateFrom && { label: `From: ${formatDate(filters.dateFrom)}`, key: 'dateFrom' as const },
-    filters.dateTo && { label: `To: ${formatDate(filters.dateTo)}`, key: 'dateTo' as const },
-  ].filter(Boolean) as { label: string; key: keyof SubmissionFilters }[];
+  }, []);
 
-  // Selection
-  const filteredIds = new Set(filtered.map((s) => s.id!));
-  const allSelected = filtered.length > 0 && filtered.every((s) => selectedRows.has(s.id!));
-  const someSelected = filtered.some((s) => selectedRows.has(s.id!));
+  useClickOutside(menuRef, () => setMenuOpen(false));
 
-  const toggleRow = (id: string) => {
-    setSelectedRows((prev) => {
-      const next = new Set(prev);
-      next.has(id) ? next.delete(id) : next.add(id);
-      return next;
-    });
-  };
+  // Show loading while checking auth
+  if (status === 'loading') {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100vh', color: 'var(--text-muted)' }}>
+        Loading...
+      </div>
+    );
+  }
 
-  const toggleAll = () => {
-    if (allSelected) {
-      setSelectedRows((prev) => {
-        const next = new Set(prev);
-        filteredIds.forEach((id) => next.delete(id));
-        return next;
-      });
-    } else {
-      setSelectedRows((prev) => {
-        const next = new Set(prev);
-        filteredIds.forEach((id) => next.add(id));
-        return next;
-      });
-    }
-  };
+  // Redirect to sign in if not authenticated
+  if (!session) {
+    signIn('azure-ad');
+    return null;
+  }
 
-  const applyBulk = async () => {
-    if (!bulkStatus || selectedRows.size === 0) return;
-    const n = selectedRows.size;
-    if (!confirm(`Change status to "${bulkStatus}" for ${n} submission${n > 1 ? 's' : ''}?`))
-      return;
-    try {
-      const res = await fetch('/api/interest-tracker', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ids: Array.from(selectedRows), completion_status: bulkStatus }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      setSelectedRows(new Set());
-      setBulkStatus('');
-      fetchSubmissions();
-    } catch {
-      alert('Failed to update. Please try again.');
-    }
+  const userEmail = session.user?.email || 'Unknown User';
+  const currentUser: SessionUser = {
+    email: userEmail,
+    name: session.user?.name || userEmail,
+    roles: session.user?.roles || ['Submitter'],
   };
-
-  const clearSelection = () => { setSelectedRows(new Set()); setBulkStatus(''); };
-
-  const handleStatusChange = async (id: string, newStatus: string) => {
-    try {
-      const res = await fetch('/api/interest-tracker', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id, completion_status: newStatus }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      fetchSubmissions();
-    } catch {
-      alert('Failed to update status.');
-    }
+  // Undefined on the dashboard and the admin pages
+  const activeTracker = TRACKER_LIST.find((t) => t.app === activeApp);
+  const activeTab = tabs[activeApp] || 'new-entry';
+  const setActiveTab = (tab: TabView) => setTabs((t) => ({ ...t, [activeApp]: tab }));
+
+  // Drop the previous list's filters from the URL; the submissions view writes its own,
+  // starting from `query` when given (e.g. a status picked on the dashboard)
+  const showApp = (app: AppView, tab: TabView, query = '') => {
+    if (app === activeApp && tab === activeTab && !profile && !query) return;
+    window.history.replaceState(null, '', `?app=${app}${query ? `&${query}` : ''}`);
+    setProfile(null);
+    setActiveApp(app);
+    setTabs((t) => ({ ...t, [app]: tab }));
   };
 
-  const handleDelete = async (sub: InterestTrackerSubmission) => {
-    if (!confirm(`Are you sure you want to delete this entry?\n\nOwner: ${sub.owner_number} — Amount of Late Payment: ${formatCurrency(sub.amount_due)}\n\nThis action cannot be undone.`))
-      return;
-    try {
-      const res = await fetch('/api/interest-tracker', {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: sub.id }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      closeDetail();
-      fetchSubmissions();
-    } catch {
-      alert('Failed to delete. Please try again.');
-    }
+  // Open a request's detail modal, e.g. from a global search result
+  const openRequest = (app: AppView, id: string) => {
+    showApp(app, 'submissions');
+    setDeepLinkId(id);
   };
 
-  const startEdit = (sub: InterestTrackerSubmission) => {
-    setEditMode(true);
-    setEditData({
-      owner_number: sub.owner_number,
-      owner_name: sub.owner_name,
-      interest_rate: sub.interest_rate,
-      interest_start_date: sub.interest_start_date,
-      interest_end_date: sub.interest_end_date,
-      amount_due: sub.amount_due,
-      notes: sub.notes,
-      completion_status: sub.completion_status,
-    });
-    setEditAttachments(sub.attachments ? [...sub.attachments] : []);
+  const openProfile = (kind: ProfileKind, key: string) => {
+    window.history.replaceState(null, '', `?${kind}=${encodeURIComponent(key)}`);
+    setProfile({ kind, key });
   };
 
-  const saveEdit = async () => {
-    if (detailIndex === null) return;
-    const sub = submissions[detailIndex];
-    if (!editData.owner_number) { alert('Please fill in all required fields.'); return; }
-    try {
-      const res = await fetch('/api/interest-tracker', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: sub.id, ...editData, attachments: editAttachments }),
-      });
-      if (!res.ok) throw new Error('Failed');
-      setEditMode(false);
-      fetchSubmissions();
-    } catch {
-      alert('Failed to save changes.');
-    }
-  };
-
-  const openDetail = (index: number) => { setDetailIndex(index); setEditMode(false); };
-  const closeDetail = () => { setDetailIndex(null); setEditMode(false); };
-
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') closeDetail(); };
-    document.addEventListener('keydown', handler);
-    return () => document.removeEventListener('keydown', handler);
-  }, []);
-
-  const detailSub = detailIndex !== null ? submissions[detailIndex] : null;
-
-  const ownerDisp = (s: InterestTrackerSubmission) =>
-    s.owner_name ? `${s.owner_number} \u2013 ${s.owner_name}` : s.owner_number;
-
   return (
-    <>
-      <div className="submissions-card">
-        <div className="form-card-accent" />
-        <div className="submissions-header">
-          <h2>Submissions</h2>
-          <span className="submissions-count">{filtered.length} of {submissions.length}</span>
-        </div>
-
-        {/* Bulk bar */}
-        {selectedRows.size > 0 && (
-          <div className="bulk-bar">
-            <span className="bulk-count">{selectedRows.size} selected</span>
-            <select className="bulk-select" value={bulkStatus} onChange={(e) => setBulkStatus(e.target.value)}>
-              <option value="">Change status to...</option>
-              <option value="Pending">Pending</option>
-              <option value="Complete">Complete</option>
-              <option value="Request Invalidated">Request Invalidated</option>
-            </select>
-            <button className="bulk-apply" disabled={!bulkStatus} onClick={applyBulk}>Apply</button>
-            <button className="bulk-cancel" onClick={clearSelection}>Cancel</button>
-          </div>
-        )}
-
-        {/* Filters */}
-        <div className="filters-bar">
-          <div className="filter-group">
-            <span className="filter-label">Search</span>
-            <input className="filter-input" placeholder="Owner # or Name" value={filters.search}
-              onChange={(e) => setFilters((f) => ({ ...f, search: e.target.value }))} />
-          </div>
-          <div className="filter-group">
-            <span className="filter-label">Status</span>
-            <select className="filter-select" value={filters.status} onChange={(e) => setFilters((f) => ({ ...f, status: e.target.value }))}>
-              <option value="">All Statuses</option>
-              <option value="Pending">Pending</option>
-              <option value="Complete">Complete</option>
-              <option value="Request Invalidated">Request Invalidated</option>
-            </select>
-          </div>
-          <div className="filter-group">
-            <span className="filter-label">Created By</span>
-            <select className="filter-select" value={filters.createdBy} onChange={(e) => setFilters((f) => ({ ...f, createdBy: e.target.value }))}>
-              <option value="">All Users</option>
-              {uniqueUsers.map((u) => <option key={u} value={u}>{u.split('@')[0]}</option>)}
-            </select>
-          </div>
-          <div className="filter-divider" />
-          <div className="filter-group">
-            <span className="filter-label">Request Date From</span>
-            <input type="date" className="filter-input filter-date" value={filters.dateFrom} onChange={(e) => setFilters((f) => ({ ...f, dateFrom: e.target.value }))} />
-          </div>
-          <div className="filter-group">
-            <span className="filter-label">Request Date To</span>
-            <input type="date" className="filter-input filter-date" value={filters.dateTo} onChange={(e) => setFilters((f) => ({ ...f, dateTo: e.target.value }))} />
-          </div>
-          <button className="filter-clear" onClick={clearFilters}>Clear All</button>
-          <button className="export-btn" onClick={() => {
-            const headers = ['Owner #', 'Owner Name', '% Interest Charged', 'Interest Start Date', 'Interest End Date', 'Amount of Late Payment', 'Notes', 'Request Date', 'Completion Status', 'Sign-Off Date', 'Created By'];
-            const rows = filtered.map((s) => [
-              s.owner_number,
-              s.owner_name || '',
-              `${s.interest_rate}%`,
-              s.interest_start_date || '',
-              s.interest_end_date || '',
-              formatCurrency(s.amount_due),
-              s.notes || '',
-              formatDate(s.request_date),
-              s.completion_status,
-              formatDate(s.sign_off_date),
-              s.created_by,
-            ]);
-            exportToExcel('interest-tracker.xlsx', headers, rows, [
-              { col: 8, options: ['Pending', 'Complete', 'Request Invalidated'] },
-            ]);
-          }}>
-            Export
+    <div>
+      <div className="tab-bar">
+        <div className="hamburger-wrapper" ref={menuRef}>
+          <button className="hamburger-btn" onClick={() => setMenuOpen((o) => !o)}>
+            <span className="hamburger-icon">☰</span>
+            {activeTracker?.title ?? ADMIN_VIEWS[activeApp as AdminView]?.title ?? 'Dashboard'}
+            <span className={`hamburger-chevron ${menuOpen ? 'open' : ''}`}>▾</span>
           </button>
+          {menuOpen && (
+            <div className="hamburger-dropdown">
+              <button
+                className={`hamburger-item ${activeApp === 'dashboard' ? 'active' : ''}`}
+                onClick={() => { showApp('dashboard', activeTab); setMenuOpen(false); }}
+              >
+                <span className="hamburger-item-icon">▦</span>
+                Dashboard
+              </button>
+              {TRACKER_LIST.map((t) => (
+                <button
+                  key={t.app}
+                  className={`hamburger-item ${activeApp === t.app ? 'active' : ''}`}
+                  onClick={() => { showApp(t.app, tabs[t.app] || 'new-entry'); setMenuOpen(false); }}
+                >
+                  <span className="hamburger-item-icon">{t.icon}</span>
+                  {t.title}
+                </button>
+              ))}
+              {hasRole(currentUser, 'Admin') &&
+                (Object.keys(ADMIN_VIEWS) as AdminView[]).map((view) => (
+                  <button
+                    key={view}
+                    className={`hamburger-item ${activeApp === view ? 'active' : ''}`}
+                    onClick={() => { showApp(view, activeTab); setMenuOpen(false); }}
+                  >
+                    <span className="hamburger-item-icon">{ADMIN_VIEWS[view].icon}</span>
+                    {ADMIN_VIEWS[view].title}
+                  </button>
+                ))}
+            </div>
+          )}
         </div>
-
-        {activeFilterTags.length > 0 && (
-          <div className="active-filters">
-            {activeFilterTags.map((t) => (
-              <span key={t.key} className="filter-tag">
-                {t.label}
-                <button className="filter-tag-remove" onClick={() => setFilters((f) => ({ ...f, [t.key]: '' }))}>×</button>
-              </span>
-            ))}
-          </div>
-        )}
-
-        {/* Table */}
-        {loading ? (
-          <div className="empty-state"><p>Loading submissions...</p></div>
-        ) : filtered.length === 0 ? (
-          <div className="empty-state">
-            <p>{submissions.length ? 'No submissions match your filters' : 'No submissions yet'}</p>
-          </div>
-        ) : (
-          <div className="table-wrapper">
-            <table>
-              <thead>
-                <tr>
-                  <th>
-                    <input type="checkbox" className="row-checkbox" checked={allSelected}
-                      ref={(el) => { if (el) el.indeterminate = someSelected && !allSelected; }}
-                      onChange={toggleAll} />
-                  </th>
-                  <th>#</th>
-                  <th>Owner #</th>
-                  <th>Owner Name</th>
-                  <th>% Interest Charged</th>
-                  <th>Interest Start Date (Prod)</th>
-                  <th>Interest End Date (Prod)</th>
-                  <th>Amount of Late Payment</th>
-                  <th style={{ width: notesWidth, minWidth: 80 }}>
-                    Notes
-                    <span className="col-resize-handle" onMouseDown={onNotesResizeStart} />
-                  </th>
-                  <th>Request Date</th>
-                  <th>Completion Status</th>
-                  <th>Sign-Off Date</th>
-                  <th>Created By</th>
-                  <th>Attachments</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filtered.map((s, i) => {
-                  const ac = s.attachments?.length || 0;
-                  return (
-                    <tr key={s.id}>
-                      <td onClick={(e) => e.stopPropagation()}>
-                        <input type="checkbox" className="row-checkbox" checked={selectedRows.has(s.id!)} onChange={() => toggleRow(s.id!)} />
-                      </td>
-                      <td style={{ color: 'var(--text-muted)' }} onClick={() => openDetail(submissions.indexOf(s))}>{i + 1}</td>
-                      <td style={{ fontWeight: 600 }} onClick={() => openDetail(submissions.indexOf(s))}>{s.owner_number}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.owner_name || '\u2014'}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.interest_rate}%</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.interest_start_date || '\u2014'}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.interest_end_date || '\u2014'}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatCurrency(s.amount_due)}</td>
-                      <td className="cell-truncate" style={{ maxWidth: notesWidth }} onClick={() => openDetail(submissions.indexOf(s))} title={s.notes || ''}>{s.notes || '\u2014'}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.request_date)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>
-                        <span className={`status ${statusClass(s.completion_status)}`}>{s.completion_status}</span>
-                      </td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.sign_off_date)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.created_by}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{ac > 0 ? `📎 ${ac}` : '\u2014'}</td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
+        {activeTracker && (
+          <>
+            <button
+              className={`tab-btn ${activeTab === 'new-entry' ? 'active' : ''}`}
+              onClick={() => showApp(activeApp, 'new-entry')}
+            >
+              + New Entry
+            </button>
+            <button
+              className={`tab-btn ${activeTab === 'submissions' ? 'active' : ''}`}
+              onClick={() => showApp(activeApp, 'submissions')}
+            >
+              📋 Submissions
+            </button>
+          </>
         )}
+        <GlobalSearch onOpen={openRequest} />
       </div>
 
-      {/* Detail / Edit Modal */}
-      {detailSub && (
-        <div className="modal-overlay" onClick={(e) => { if (e.target === e.currentTarget) closeDetail(); }}>
-          <div className="modal">
-            <div className="modal-header">
-              <h2>{editMode ? 'Editing Entry' : 'Entry Detail'} — {ownerDisp(detailSub)}</h2>
-              <div className="modal-actions">
-                {editMode ? (
-                  <>
-                    <button className="save-btn" onClick={saveEdit}>Save</button>
-                    <button className="cancel-edit-btn" onClick={() => setEditMode(false)}>Cancel</button>
-                  </>
-                ) : (
-                  <>
-                    <button className="delete-btn" onClick={() => handleDelete(detailSub)}>🗑 Delete</button>
-                    <button className="edit-btn" onClick={() => startEdit(detailSub)}>✎ Edit</button>
-                  </>
-                )}
-                <button className="modal-close" onClick={closeDetail}>×</button>
-              </div>
-            </div>
-            <div className="modal-body">
-              {editMode ? (
-                <div className="detail-grid">
-                  <div className="detail-field">
-                    <div className="detail-label">Owner</div>
-                    <SearchDropdown
-                      placeholder="Search owner..."
-                      value={editData.owner_number || ''}
-                      displayValue={editData.owner_name ? `${editData.owner_number} \u2013 ${editData.owner_name}` : editData.owner_number || ''}
-                      onChange={(val) => setEditData((d) => ({ ...d, owner_number: val, owner_name: '' }))}
-                      onSelect={(item: any) => setEditData((d) => ({ ...d, owner_number: item.owner_number, owner_name: item.owner_name || '' }))}
-                      fetchUrl="/api/owners"
-                      mapResult={(d) => d}
-                      renderOption={(item: any) => (
-                        <>
-                          <span className="search-option-number">{item.owner_number}</span>
-                          <span className="search-option-name">{item.owner_name}</span>
-                        </>
-                      )}
-                    />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">% Interest Charged</div>
-                    <input type="number" step="0.01" min="0" max="100" className="edit-input"
-                      value={editData.interest_rate ?? ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, interest_rate: parseFloat(e.target.value) }))} />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Interest Start Date (Prod)</div>
-                    <input type="text" className="edit-input" value={editData.interest_start_date || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, interest_start_date: e.target.value }))} />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Interest End Date (Prod)</div>
-                    <input type="text" className="edit-input" value={editData.interest_end_date || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, interest_end_date: e.target.value }))} />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Amount of Late Payment</div>
-                    <input type="number" step="0.01" min="0" className="edit-input"
-                      value={editData.amount_due?.toFixed(2) ?? ''}
-                      onChange={(e) => {
-                        let v = parseFloat(e.target.value);
-                        if (v < 0) v = Math.abs(v);
-                        setEditData((d) => ({ ...d, amount_due: v }));
-                      }} />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Completion Status</div>
-                    <select className="edit-input" value={editData.completion_status || 'Pending'}
-                      onChange={(e) => setEditData((d) => ({ ...d, completion_status: e.target.value as any }))}>
-                      <option value="Pending">Pending</option>
-                      <option value="Complete">Complete</option>
-                      <option value="Request Invalidated">Request Invalidated</option>
-                    </select>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Request Date</div>
-                    <div className="detail-value" style={{ paddingTop: 8 }}>{formatDate(detailSub.request_date)}</div>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Created By</div>
-                    <div className="detail-value" style={{ paddingTop: 8 }}>{detailSub.created_by}</div>
-                  </div>
-                  <div className="detail-field full">
-                    <div className="detail-label">Notes</div>
-                    <textarea className="edit-textarea" value={editData.notes || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, notes: e.target.value }))} />
-                  </div>
-                  <div className="detail-field full">
-                    <div className="detail-label">Attachments</div>
-                    {editAttachments.length === 0 ? (
-                      <p className="attach-empty">No attachments</p>
-                    ) : (
-                      <div className="attach-list">
-                        {editAttachments.map((f, i) => (
-                          <div key={i} className="attach-item">
-                            <span>📎 {f}</span>
-                            <button type="button" className="attach-remove" onClick={() => setEditAttachments((p) => p.filter((_, j) => j !== i))}>×</button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                    <input ref={editFileRef} type="file" multiple
-                      onChange={(e) => {
-                        if (e.target.files) setEditAttachments((p) => [...p, ...Array.from(e.target.files!).map((f) => f.name)]);
-                        if (editFileRef.current) editFileRef.current.value = '';
-                      }}
-                      style={{ display: 'none' }} />
-                    <button type="button" className="attach-btn" style={{ marginTop: 8 }} onClick={() => editFileRef.current?.click()}>📎 Attach file</button>
-                  </div>
-                </div>
-              ) : (
-                <>
-                  <div className="detail-grid">
-                    <div className="detail-field">
-                      <div className="detail-label">Owner</div>
-                      <div className="detail-value" style={{ fontWeight: 600 }}>{ownerDisp(detailSub)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">% Interest Charged</div>
-                      <div className="detail-value">{detailSub.interest_rate}%</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Interest Start Date (Prod)</div>
-                      <div className="detail-value">{detailSub.interest_start_date || '\u2014'}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Interest End Date (Prod)</div>
-                      <div className="detail-value">{detailSub.interest_end_date || '\u2014'}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Amount of Late Payment</div>
-                      <div className="detail-value">{formatCurrency(detailSub.amount_due)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Request Date</div>
-                      <div className="detail-value">{formatDate(detailSub.request_date)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Created By</div>
-                      <div className="detail-value">{detailSub.created_by}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Sign-Off Date</div>
-                      <div className="detail-value">{formatDate(detailSub.sign_off_date)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Completion Status</div>
-                      <div className="detail-value">
-                        <span className={`status ${statusClass(detailSub.completion_status)}`}>{detailSub.completion_status}</span>
-                      </div>
-                    </div>
-                    <div className="detail-field full">
-                      <div className="detail-label">Notes</div>
-                      <div className={`detail-notes ${detailSub.notes ? '' : 'empty'}`}>{detailSub.notes || 'No notes provided'}</div>
-                    </div>
-                    <div className="detail-field full">
-                      <div className="detail-label">Attachments</div>
-                      {detailSub.attachments?.length ? (
-                        <div className="detail-attachments">
-                          {detailSub.attachments.map((a, i) => {
-                            const fileName = a.split('/').pop() || a;
-                            const displayName = fileName.replace(/^\d+-/, '');
-                            return (
-                              <div key={i} className="detail-attach-item"
-                                onClick={async () => {
-                                  try {
-                                    const res = await fetch(`/api/download?path=${encodeURIComponent(a)}`);
-                                    const data = await res.json();
-                                    if (data.url) window.open(data.url, '_blank');
-                                    else alert('Failed to get download link.');
-                                  } catch { alert('Failed to open file.'); }
-                                }}>
-                                📎 {displayName}
-                                <span className="attach-dl">Open ↗</span>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      ) : (
-                        <span style={{ color: 'var(--text-muted)', fontStyle: 'italic', fontSize: 13 }}>No attachments</span>
-                      )}
-                    </div>
-                  </div>
-                  <div className="detail-status-row">
-                    <label>Update Status:</label>
-                    <select className="detail-status-select" value={detailSub.completion_status}
-                      onChange={(e) => handleStatusChange(detailSub.id!, e.target.value)}>
-                      <option value="Pending">Pending</option>
-                      <option value="Complete">Complete</option>
-                      <option value="Request Invalidated">Request Invalidated</option>
-                    </select>
-                  </div>
-                </>
-              )}
-            </div>
-          </div>
+      {profile ? (
+        <div className="content-area wide">
+          {profile.kind === 'owner' ? (
+            <OwnerView key={profile.key} ownerNumber={profile.key} onBack={() => showApp(activeApp, activeTab)} onOpen={openRequest} />
+          ) : (
+            <WellView key={profile.key} wellCode={profile.key} onBack={() => showApp(activeApp, activeTab)} onOpen={openRequest} />
+          )}
+        </div>
+      ) : activeApp === 'outbox' ? (
+        <div className="content-area wide">
+          <OutboxView />
+        </div>
+      ) : activeApp === 'templates' ? (
+        <div className="content-area wide">
+          <TemplatesView />
+        </div>
+      ) : !activeTracker ? (
+        <div className="content-area wide">
+          <DashboardView onOpenList={(app, query) => showApp(app, 'submissions', query)} />
         </div>
+      ) : activeTab === 'new-entry' ? (
+        <div className="content-area">
+          <TrackerForm key={activeApp} tracker={activeTracker} onSuccess={() => setActiveTab('submissions')} userEmail={userEmail} />
+        </div>
+      ) : (
+        <div className="content-area wide">
+          <TrackerSubmissionsView
+            key={activeApp}
+            tracker={activeTracker}
+            user={currentUser}
+            openId={deepLinkId}
+            onOpenIdHandled={() => setDeepLinkId(null)}
+            onOpenProfile={openProfile}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ============================================================
+   Config-driven trackers — form inputs
+   (rendered from each tracker's `form` definition in lib/trackers.ts)
+   ============================================================ */
+type FieldValues = Record<string, any>;
+
+/** Text shown in a lookup input for the stored value, e.g. "W123 – Smith 1H". */
+function lookupText(field: FieldConfig, values: FieldValues) {
+  return values[field.name] ? formatField(field, values) : '';
+}
+
+function LookupInput({ field, values, onChange }: {
+  field: FieldConfig;
+  values: FieldValues;
+  onChange: (patch: FieldValues) => void;
+}) {
+  const lookup = field.lookup!;
+  const [display, setDisplay] = useState(() => lookupText(field, values));
+  const mapResult = useCallback((data: any[]) => data, []);
+  // Typing over a selection invalidates whatever it filled in
+  const cleared = Object.fromEntries(Object.keys(lookup.fill || {}).map((key) => [key, '']));
+
+  return (
+    <SearchDropdown
+      placeholder={field.placeholder || `Search ${field.label.toLowerCase()}...`}
+      value={values[field.name] || ''}
+      displayValue={display}
+      onChange={(val, text) => {
+        onChange({ [field.name]: val, ...cleared });
+        setDisplay(text);
+      }}
+      onSelect={(item: any) => {
+        const patch: FieldValues = { [field.name]: item[lookup.valueKey] || '' };
+        for (const [key, optionKey] of Object.entries(lookup.fill || {})) patch[key] = item[optionKey] || '';
+        onChange(patch);
+        setDisplay(lookupText(field, patch));
+      }}
+      fetchUrl={lookup.url}
+      mapResult={mapResult}
+      renderOption={(item: any) => (
+        <>
+          <span className="search-option-number">{item[lookup.valueKey]}</span>
+          {lookup.labelKey && <span className="search-option-name">{item[lookup.labelKey]}</span>}
+        </>
       )}
-    </>
+    />
   );
 }
 
+/** Input for one configured field, styled for the New Entry form or the edit modal. */
+function TrackerFieldInput({ field, values, onChange, variant }: {
+  field: FieldConfig;
+  values: FieldValues;
+  onChange: (patch: FieldValues) => void;
+  variant: 'form' | 'edit';
+}) {
+  const className = variant === 'form' ? 'form-input' : 'edit-input';
+  const value = values[field.name] ?? '';
+  const set = (v: string) => onChange({ [field.name]: v });
+
+  // Filled from a lookup: shown formatted, e.g. "$152.37" or "100234 – Abbott, Margaret L"
+  if (field.readOnly) {
+    return <input type="text" className={className} placeholder={field.placeholder} value={lookupText(field, values)} readOnly />;
+  }
+
+  switch (field.type) {
+    case 'lookup':
+      return <LookupInput field={field} values={values} onChange={onChange} />;
+    case 'select':
+      return (
+        <select className={className} value={value} onChange={(e) => set(e.target.value)}>
+          <option value="" disabled={field.required}>{field.placeholder || 'Select...'}</option>
+          {(field.options || []).map((o) => <option key={o} value={o}>{o}</option>)}
+        </select>
+      );
+    case 'textarea':
+      return (
+        <textarea
+          className={variant === 'form' ? 'form-textarea' : 'edit-textarea'}
+          placeholder={field.placeholder}
+          value={value}
+          onChange={(e) => set(e.target.value)}
+        />
+      );
+    case 'number':
+    case 'currency':
+    case 'percent':
+      return (
+        <input
+          type="number"
+          step={field.type === 'currency' ? '0.01' : 'any'}
+          min="0"
+          max={field.max}
+          className={className}
+          placeholder={field.placeholder}
+          value={value}
+          onChange={(e) => set(e.target.value)}
+        />
+      );
+    default:
+      return (
+        <input
+          type={field.type === 'date' ? 'date' : field.type === 'month' ? 'month' : 'text'}
+          className={className}
+          placeholder={field.placeholder}
+          value={value}
+          onChange={(e) => set(e.target.value)}
+        />
+      );
+  }
+}
+
 /* ============================================================
-   Transfer Log — New Entry Form
+   Config-driven trackers — New Entry Form
    ============================================================ */
-function TransferLogForm({ onSuccess, userEmail }: { onSuccess: () => void; userEmail: string }) {
-  const [accountingGroup, setAccountingGroup] = useState('');
-  const [wellCode, setWellCode] = useState('');
-  const [wellName, setWellName] = useState('');
-  const [wellDisplay, setWellDisplay] = useState('');
-  const [searchKey, setSearchKey] = useState('');
-  const [notes, setNotes] = useState('');
+function TrackerForm({ tracker, onSuccess, userEmail }: { tracker: TrackerDefinition; onSuccess: () => void; userEmail: string }) {
+  const form = tracker.form;
+  const emptyValues = (): FieldValues => ({ ...Object.fromEntries(form.fields.map((f) => [f.name, ''])), notes: '' });
+  const [values, setValues] = useState<FieldValues>(emptyValues);
   const [attachments, setAttachments] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
   const [showSuccess, setShowSuccess] = useState(false);
+  // Bumped on reset so lookup inputs drop their typed text
+  const [formKey, setFormKey] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const mapWells = useCallback((data: any[]) => data, []);
+  const update = (patch: FieldValues) => setValues((v) => ({ ...v, ...patch }));
+
+  // Lists the possible duplicates the server found; the entry can still be
+  // submitted with a reason, which is recorded on it
+  const askDuplicateOverride = (conflict: { error: string; duplicates: DuplicateMatch[] }) => {
+    const describe = form.describeDuplicate ?? tracker.describe;
+    const lines = conflict.duplicates.map(
+      (d) => `• ${d.match === 'exact' ? 'Exact' : 'Near'} match: ${describe(d.record)} (${d.record.completion_status}) — ${d.reason}`
+    );
+    const reason = prompt(`${conflict.error}:\n\n${lines.join('\n')}\n\nTo submit anyway, enter a reason:`);
+    return reason?.trim() ? { override_duplicate: true, override_reason: reason.trim() } : null;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!accountingGroup) { alert('Please select an Accounting Group'); return; }
-    if (!wellCode) { alert('Please select a Well Code / Name'); return; }
+    const { errors: invalid } = validatePayload(tracker.schema, values);
+    setErrors(invalid || {});
+    if (invalid) return;
 
     setSubmitting(true);
     try {
-      let uploadedPaths: string[] = [];
-      if (attachments.length > 0) {
-        const formData = new FormData();
-        attachments.forEach((f) => formData.append('files', f));
-        formData.append('folder', 'transfer-log');
-        const uploadRes = await fetch('/api/upload', { method: 'POST', body: formData });
-        if (!uploadRes.ok) throw new Error('Failed to upload attachments');
-        const uploadData = await uploadRes.json();
-        uploadedPaths = uploadData.paths;
-      }
-
-      const res = await fetch('/api/transfer-log', {
+      // Server-side validation and duplicate check before uploading anything
+      const check = await fetch(tracker.api, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          accounting_group: accountingGroup,
-          well_code: wellCode,
-          well_name: wellName,
-          search_key: searchKey,
-          notes,
-          attachments: uploadedPaths,
-          created_by: userEmail,
-        }),
-      });
+        body: JSON.stringify({ ...values, validate_only: true }),
+      }).catch(() => null);
+      if (check?.status === 422) {
+        setErrors((await check.json()).fields || {});
+        return;
+      }
+      let override: ReturnType<typeof askDuplicateOverride> = null;
+      if (check?.status === 409) {
+        override = askDuplicateOverride(await check.json());
+        if (!override) return;
+      } else if (!check?.ok) {
+        alert('Could not check for duplicate submissions. Please try again.');
+        return;
+      }
+
+      const uploadedPaths = attachments.length > 0 ? await uploadFiles(attachments, tracker.app) : [];
+
+      const submit = () =>
+        fetch(tracker.api, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...values, attachments: uploadedPaths, ...override }),
+        });
+      let res = await submit();
+
+      // A matching entry was submitted since the check: ask again, keeping the uploads
+      if (res.status === 409) {
+        override = askDuplicateOverride(await res.json());
+        if (!override) return;
+        res = await submit();
+      }
+
+      if (res.status === 422) {
+        setErrors((await res.json()).fields || {});
+        return;
+      }
 
       if (!res.ok) throw new Error('Failed to submit');
 
       setShowSuccess(true);
       setTimeout(() => {
         setShowSuccess(false);
-        setAccountingGroup(''); setWellCode(''); setWellName('');
-        setWellDisplay(''); setSearchKey(''); setNotes(''); setAttachments([]);
+        setValues(emptyValues());
+        setAttachments([]);
+        setFormKey((k) => k + 1);
         onSuccess();
       }, 1800);
     } catch (err) {
@@ -2596,74 +2109,19 @@ function TransferLogForm({ onSuccess, userEmail }: { onSuccess: () => void; user
       <div className="form-card">
         <div className="form-card-accent" />
         <div className="form-card-body">
-          <h1 className="form-card-title">New Transfer Log Entry</h1>
+          <h1 className="form-card-title">{form.title}</h1>
           <p className="form-card-subtitle">Submitting as {userEmail}</p>
 
-          <form onSubmit={handleSubmit}>
-            {/* Accounting Group */}
-            <div className="form-group">
-              <label className="form-label">
-                Accounting Group <span className="required">*</span>
-              </label>
-              <select
-                className="form-input"
-                value={accountingGroup}
-                onChange={(e) => setAccountingGroup(e.target.value)}
-                required
-              >
-                <option value="" disabled>Select accounting group...</option>
-                <option value="JIB">JIB</option>
-                <option value="Revenue">Revenue</option>
-              </select>
-            </div>
-
-            {/* Well Code / Name */}
-            <div className="form-group">
-              <label className="form-label">
-                Well Code / Name <span className="required">*</span>
-              </label>
-              <SearchDropdown
-                placeholder="Search by well code or name..."
-                value={wellCode}
-                displayValue={wellDisplay}
-                onChange={(val, display) => {
-                  setWellCode(val);
-                  setWellDisplay(display);
-                  setWellName('');
-                  setSearchKey('');
-                }}
-                onSelect={(item: any) => {
-                  setWellCode(item.well_code || '');
-                  setWellName(item.well_name || '');
-                  setWellDisplay(
-                    item.well_name
-                      ? `${item.well_code} \u2013 ${item.well_name}`
-                      : item.well_code || ''
-                  );
-                  setSearchKey(item.search_key || '');
-                }}
-                fetchUrl="/api/wells"
-                mapResult={mapWells}
-                renderOption={(item: any) => (
-                  <>
-                    <span className="search-option-number">{item.well_code}</span>
-                    <span className="search-option-name">{item.well_name}</span>
-                  </>
-                )}
-              />
-            </div>
-
-            {/* Search Key (auto-populated) */}
-            <div className="form-group">
-              <label className="form-label">Search Key</label>
-              <input
-                type="text"
-                className="form-input"
-                placeholder="Auto-populated from well selection"
-                value={searchKey}
-                readOnly
-              />
-            </div>
+          <form key={formKey} onSubmit={handleSubmit}>
+            {form.fields.filter((f) => !f.hidden).map((f) => (
+              <div key={f.name} className="form-group">
+                <label className="form-label">
+                  {f.label} {f.required && <span className="required">*</span>}
+                </label>
+                <TrackerFieldInput field={f} values={values} onChange={update} variant="form" />
+                <FieldError errors={errors} field={f.name} />
+              </div>
+            ))}
 
             {/* Notes */}
             <div className="form-group">
@@ -2671,9 +2129,10 @@ function TransferLogForm({ onSuccess, userEmail }: { onSuccess: () => void; user
               <textarea
                 className="form-textarea"
                 placeholder="Input Notes"
-                value={notes}
-                onChange={(e) => setNotes(e.target.value)}
+                value={values.notes}
+                onChange={(e) => update({ notes: e.target.value })}
               />
+              <FieldError errors={errors} field="notes" />
             </div>
 
             {/* Attachments */}
@@ -2723,6 +2182,7 @@ function TransferLogForm({ onSuccess, userEmail }: { onSuccess: () => void; user
               >
                 📎 Attach file
               </button>
+              <FieldError errors={errors} field="attachments" />
             </div>
 
             <button type="submit" className="submit-btn" disabled={submitting}>
@@ -2737,7 +2197,7 @@ function TransferLogForm({ onSuccess, userEmail }: { onSuccess: () => void; user
           <div className="toast">
             <div className="toast-icon">✓</div>
             <h3>Submitted Successfully</h3>
-            <p>Your transfer log entry is now pending.</p>
+            <p>{form.successMessage}</p>
           </div>
         </div>
       )}
@@ -2746,21 +2206,219 @@ function TransferLogForm({ onSuccess, userEmail }: { onSuccess: () => void; user
 }
 
 /* ============================================================
-   Transfer Log — Submissions View
+   Spreadsheet Upload
    ============================================================ */
-function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: string | null; onOpenIdHandled?: () => void }) {
-  const [submissions, setSubmissions] = useState<TransferLogSubmission[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<SubmissionFilters>({
-    search: '', status: '', createdBy: '', dateFrom: '', dateTo: '', accountingGroup: '',
-  });
+/** Preview and apply a status spreadsheet (an edited Export) against the tracker's `spreadsheetApi`. */
+function SpreadsheetUploadModal({ api, keyLabel, onClose, onApplied }: {
+  api: string;
+  /** Header of the column naming each matched row, e.g. "Check Number" */
+  keyLabel: string;
+  onClose: () => void;
+  onApplied: () => void;
+}) {
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadPreview, setUploadPreview] = useState<any>(null);
+  const [uploadResult, setUploadResult] = useState<any>(null);
+  const [uploadLoading, setUploadLoading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleUploadPreview = useCallback(async () => {
+    if (!uploadFile) return;
+    setUploadLoading(true);
+    setUploadError(null);
+    try {
+      const fd = new FormData();
+      fd.append('file', uploadFile);
+      fd.append('action', 'preview');
+      const res = await fetch(api, { method: 'POST', body: fd });
+      const data = await res.json();
+      if (!res.ok) { setUploadError(data.error || 'Failed to parse spreadsheet'); return; }
+      setUploadPreview(data);
+    } catch {
+      setUploadError('Failed to upload. Please try again.');
+    } finally {
+      setUploadLoading(false);
+    }
+  }, [api, uploadFile]);
+
+  const handleUploadApply = useCallback(async () => {
+    if (!uploadFile) return;
+    setUploadLoading(true);
+    try {
+      const fd = new FormData();
+      fd.append('file', uploadFile);
+      fd.append('action', 'apply');
+      const res = await fetch(api, { method: 'POST', body: fd });
+      const data = await res.json();
+      setUploadResult(data);
+    } catch {
+      setUploadError('Failed to apply changes.');
+    } finally {
+      setUploadLoading(false);
+    }
+  }, [api, uploadFile]);
+
+  return (
+    <div className="modal-overlay" onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div className="modal" style={{ maxWidth: 680 }}>
+        <div className="modal-header">
+          <h2>Upload Spreadsheet</h2>
+          <div className="modal-actions">
+            <button className="modal-close" onClick={onClose}>×</button>
+          </div>
+        </div>
+        <div className="modal-body">
+
+          {/* Phase 1: File Selection */}
+          {!uploadPreview && !uploadResult && (
+            <div>
+              <p style={{ marginBottom: 16, color: 'var(--text-secondary)', fontSize: 13 }}>
+                Upload the Excel report to update <strong>Completion Status</strong> for matching records. Edited <strong>Notes</strong> are posted to each record&apos;s comment thread.
+              </p>
+              <input
+                type="file"
+                accept=".xlsx,.xls"
+                onChange={(e) => { setUploadFile(e.target.files?.[0] || null); setUploadError(null); }}
+              />
+              {uploadError && <p style={{ color: 'var(--danger, #e74c3c)', marginTop: 8, fontSize: 13 }}>{uploadError}</p>}
+              <div style={{ marginTop: 16 }}>
+                <button className="submit-btn" disabled={!uploadFile || uploadLoading} onClick={handleUploadPreview}>
+                  {uploadLoading ? 'Parsing...' : 'Upload & Preview'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Phase 2: Preview */}
+          {uploadPreview && !uploadResult && (
+            <div>
+              {uploadPreview.updates.length > 0 ? (
+                <>
+                  <p style={{ marginBottom: 12, fontSize: 13 }}>
+                    <strong>{uploadPreview.updates.length}</strong> record(s) will be updated:
+                  </p>
+                  <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+                    <table className="upload-preview-table">
+                      <thead>
+                        <tr>
+                          <th>{keyLabel}</th>
+                          <th>Field</th>
+                          <th>Current</th>
+                          <th>New</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {uploadPreview.updates.flatMap((u: any) =>
+                          Object.entries(u.changes).map(([field, change]: [string, any]) => (
+                            <tr key={`${u.id}-${field}`}>
+                              <td>{u.checkNumber}</td>
+                              <td>{field === 'completion_status' ? 'Status' : 'Comment'}</td>
+                              <td><span className="upload-change-from">{change.from || '(empty)'}</span></td>
+                              <td><span className="upload-change-to">{change.to || '(empty)'}</span></td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              ) : (
+                <p style={{ fontSize: 13, color: 'var(--text-muted)' }}>No changes detected in the spreadsheet.</p>
+              )}
+
+              {uploadPreview.warnings.length > 0 && (
+                <div className="upload-warnings">
+                  <strong>Warnings ({uploadPreview.warnings.length})</strong>
+                  {uploadPreview.warnings.map((w: any, i: number) => (
+                    <div key={i} className="upload-warning-item">Row {w.row}: {w.message}</div>
+                  ))}
+                </div>
+              )}
+
+              {uploadPreview.skipped.length > 0 && (
+                <p style={{ fontSize: 12, color: 'var(--text-muted)', marginTop: 8 }}>
+                  {uploadPreview.skipped.length} row(s) skipped (no changes).
+                </p>
+              )}
+
+              {uploadError && <p style={{ color: 'var(--danger, #e74c3c)', marginTop: 8, fontSize: 13 }}>{uploadError}</p>}
+
+              <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
+                {uploadPreview.updates.length > 0 && (
+                  <button className="submit-btn" disabled={uploadLoading} onClick={handleUploadApply}>
+                    {uploadLoading ? 'Applying...' : `Apply ${uploadPreview.updates.length} Change${uploadPreview.updates.length > 1 ? 's' : ''}`}
+                  </button>
+                )}
+                <button className="cancel-edit-btn" onClick={onClose}>Cancel</button>
+              </div>
+            </div>
+          )}
+
+          {/* Phase 3: Result */}
+          {uploadResult && (
+            <div>
+              <p style={{ fontSize: 14, marginBottom: 8 }}>
+                <strong>{uploadResult.applied.length}</strong> record(s) updated successfully.
+              </p>
+              {uploadResult.errors.length > 0 && (
+                <p style={{ color: 'var(--danger, #e74c3c)', fontSize: 13 }}>
+                  {uploadResult.errors.length} error(s) occurred.
+                </p>
+              )}
+              {uploadResult.warnings.length > 0 && (
+                <p style={{ color: '#e67e22', fontSize: 13 }}>
+                  {uploadResult.warnings.length} warning(s).
+                </p>
+              )}
+              <button className="submit-btn" style={{ marginTop: 16 }} onClick={() => {
+                onApplied();
+                onClose();
+              }}>
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============================================================
+   Config-driven trackers — Submissions View
+   ============================================================ */
+function TrackerSubmissionsView({ tracker, user, openId, onOpenIdHandled, onOpenProfile }: {
+  tracker: TrackerDefinition;
+  user: SessionUser;
+  openId?: string | null;
+  onOpenIdHandled?: () => void;
+  onOpenProfile?: (kind: ProfileKind, key: string) => void;
+}) {
+  const form = tracker.form;
+  const table = tracker.table;
+  const columns = form.columns.map((name) => form.fields.find((f) => f.name === name)!);
+  const filterFields = form.fields.filter((f) => f.filter);
+  const titleField = form.fields.find((f) => f.name === form.titleField)!;
+  // Fields marked with a `profile` link to that entity's 360 page
+  const profileOpener = (f: FieldConfig) => (f.profile && onOpenProfile ? (key: string) => onOpenProfile(f.profile!, key) : undefined);
+  const {
+    filters, setFilters, viewQuery, applyView,
+    // Dropdown filters on the tracker's own `filter` fields
+    columnFilters: fieldFilters, setColumnFilters: setFieldFilters,
+    rows: submissions, total, loading, page, setPage, sort, toggleSort,
+    showTrash, toggleTrash, people, refreshPeople, refresh: fetchSubmissions, fetchAll,
+  } = useSubmissionsList<TrackerSubmission>(tracker);
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [bulkStatus, setBulkStatus] = useState('');
-  const [detailIndex, setDetailIndex] = useState<number | null>(null);
+  const [bulkAssignee, setBulkAssignee] = useState('');
+  const { invalidationDialog, askInvalidation } = useInvalidationDialog();
+  const [detailId, setDetailId] = useState<string | null>(null);
   const [editMode, setEditMode] = useState(false);
-  const [editData, setEditData] = useState<Partial<TransferLogSubmission>>({});
+  const [editData, setEditData] = useState<FieldValues>({});
+  const [editErrors, setEditErrors] = useState<FieldErrors>({});
   const [editAttachments, setEditAttachments] = useState<string[]>([]);
   const editFileRef = useRef<HTMLInputElement>(null);
+  const [showUpload, setShowUpload] = useState(false);
 
   // Notes column resize
   const [notesWidth, setNotesWidth] = useState(200);
@@ -2787,72 +2445,54 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
     document.addEventListener('mouseup', onMouseUp);
   }, [notesWidth]);
 
-  const fetchSubmissions = useCallback(async () => {
-    try {
-      const res = await fetch('/api/transfer-log');
-      const data = await res.json();
-      if (Array.isArray(data)) setSubmissions(data);
-    } catch (err) {
-      console.error('Error fetching transfer log submissions:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => { fetchSubmissions(); }, [fetchSubmissions]);
+  const canUpdateStatus = canChangeStatus(user) && !showTrash;
+  const canUpdateAssignee = canAssign(user) && !showTrash;
+  const workflow = getWorkflow(table);
 
-  // Auto-open detail from deep link
+  // Deep link: narrow the list to the linked entry and open it once it loads
+  const pendingOpenId = useRef<string | null>(null);
   useEffect(() => {
-    if (openId && submissions.length > 0 && !loading) {
-      const idx = submissions.findIndex((s) => s.id === openId);
-      if (idx !== -1) setDetailIndex(idx);
+    if (openId) {
+      pendingOpenId.current = openId;
+      setFilters((f) => ({ ...f, id: openId }));
       onOpenIdHandled?.();
     }
-  }, [openId, submissions, loading, onOpenIdHandled]);
-
-  // Filtering
-  const filtered = submissions.filter((s) => {
-    if (filters.search) {
-      const q = filters.search.toLowerCase();
-      if (
-        !s.well_code.toLowerCase().includes(q) &&
-        !(s.well_name || '').toLowerCase().includes(q) &&
-        !(s.search_key || '').toLowerCase().includes(q)
-      )
-        return false;
-    }
-    if (filters.status && s.completion_status !== filters.status) return false;
-    if (filters.accountingGroup && s.accounting_group !== filters.accountingGroup) return false;
-    if (filters.createdBy && s.created_by !== filters.createdBy) return false;
-    if (filters.dateFrom) {
-      const rd = new Date(s.request_date).toISOString().slice(0, 10);
-      if (rd < filters.dateFrom) return false;
-    }
-    if (filters.dateTo) {
-      const rd = new Date(s.request_date).toISOString().slice(0, 10);
-      if (rd > filters.dateTo) return false;
+  }, [openId, onOpenIdHandled]);
+
+  useEffect(() => {
+    if (pendingOpenId.current && submissions.some((s) => s.id === pendingOpenId.current)) {
+      setDetailId(pendingOpenId.current);
+      pendingOpenId.current = null;
     }
-    return true;
-  }).sort((a, b) => new Date(b.request_date).getTime() - new Date(a.request_date).getTime());
+    // openId too: a link to a row that is already loaded changes nothing else
+  }, [submissions, openId]);
 
-  const uniqueUsers = [...new Set(submissions.map((s) => s.created_by))].sort();
+  // People who have worked requests (assignees and editors) plus the current user
+  const assignableUsers = [...new Set([user.email.toLowerCase(), ...people.assignees])].sort();
 
-  const clearFilters = () =>
-    setFilters({ search: '', status: '', createdBy: '', dateFrom: '', dateTo: '', accountingGroup: '' });
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setFieldFilters({});
+  };
 
   const activeFilterTags = [
+    filters.id && { label: 'Linked entry', key: 'id' as const },
     filters.search && { label: `Search: ${filters.search}`, key: 'search' as const },
     filters.status && { label: `Status: ${filters.status}`, key: 'status' as const },
-    filters.accountingGroup && { label: `Group: ${filters.accountingGroup}`, key: 'accountingGroup' as const },
     filters.createdBy && { label: `By: ${filters.createdBy.split('@')[0]}`, key: 'createdBy' as const },
+    filters.assignedTo && { label: filters.assignedTo === 'me' ? 'Assigned to me' : 'Unassigned', key: 'assignedTo' as const },
     filters.dateFrom && { label: `From: ${formatDate(filters.dateFrom)}`, key: 'dateFrom' as const },
     filters.dateTo && { label: `To: ${formatDate(filters.dateTo)}`, key: 'dateTo' as const },
+    filters.olderThan && { label: `Older than ${filters.olderThan} days`, key: 'olderThan' as const },
   ].filter(Boolean) as { label: string; key: keyof SubmissionFilters }[];
+  const activeFieldTags = filterFields
+    .filter((f) => fieldFilters[f.name])
+    .map((f) => ({ label: `${f.label}: ${fieldFilters[f.name]}`, key: f.name }));
 
   // Selection
-  const filteredIds = new Set(filtered.map((s) => s.id!));
-  const allSelected = filtered.length > 0 && filtered.every((s) => selectedRows.has(s.id!));
-  const someSelected = filtered.some((s) => selectedRows.has(s.id!));
+  const pageIds = new Set(submissions.map((s) => s.id!));
+  const allSelected = submissions.length > 0 && submissions.every((s) => selectedRows.has(s.id!));
+  const someSelected = submissions.some((s) => selectedRows.has(s.id!));
 
   const toggleRow = (id: string) => {
     setSelectedRows((prev) => {
@@ -2866,60 +2506,116 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
     if (allSelected) {
       setSelectedRows((prev) => {
         const next = new Set(prev);
-        filteredIds.forEach((id) => next.delete(id));
+        pageIds.forEach((id) => next.delete(id));
         return next;
       });
     } else {
       setSelectedRows((prev) => {
         const next = new Set(prev);
-        filteredIds.forEach((id) => next.add(id));
+        pageIds.forEach((id) => next.add(id));
         return next;
       });
     }
   };
 
   const applyBulk = async () => {
-    if (!bulkStatus || selectedRows.size === 0) return;
+    if ((!bulkStatus && !bulkAssignee) || selectedRows.size === 0) return;
     const n = selectedRows.size;
-    if (!confirm(`Change status to "${bulkStatus}" for ${n} submission${n > 1 ? 's' : ''}?`))
+    const changes = [
+      bulkStatus && `Status: ${bulkStatus}`,
+      bulkAssignee && `Assigned To: ${bulkAssignee === UNASSIGNED ? 'Unassigned' : bulkAssignee}`,
+    ].filter(Boolean).join('\n');
+    if (!confirm(`Update ${n} submission${n > 1 ? 's' : ''}?\n\n${changes}`))
       return;
+
+    let statusReason = '';
+    let invalidation: InvalidationInput | null = null;
+    const needsReason = !!bulkStatus && submissions.some(
+      (s) => selectedRows.has(s.id!) && requiresReason(table, s.completion_status, bulkStatus)
+    );
+    if (bulkStatus === workflow.invalidated) {
+      invalidation = await askInvalidation(n);
+      if (!invalidation) return;
+    } else if (needsReason) {
+      const reason = prompt(`A reason is required to move the selected entries to "${bulkStatus}":`);
+      if (!reason?.trim()) return;
+      statusReason = reason.trim();
+    }
     try {
-      const res = await fetch('/api/transfer-log', {
+      const res = await fetch(tracker.api, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ids: Array.from(selectedRows), completion_status: bulkStatus }),
+        body: JSON.stringify({
+          ids: Array.from(selectedRows),
+          ...(bulkStatus ? { completion_status: bulkStatus } : {}),
+          ...(statusReason ? { status_reason: statusReason } : {}),
+          ...invalidation,
+          ...(bulkAssignee ? { assigned_to: bulkAssignee === UNASSIGNED ? null : bulkAssignee } : {}),
+        }),
       });
-      if (!res.ok) throw new Error('Failed');
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to update. Please try again.');
+        return;
+      }
       setSelectedRows(new Set());
-      setBulkStatus('');
+      setBulkStatus(''); setBulkAssignee('');
       fetchSubmissions();
+      if (bulkAssignee) refreshPeople();
     } catch {
       alert('Failed to update. Please try again.');
     }
   };
 
-  const clearSelection = () => { setSelectedRows(new Set()); setBulkStatus(''); };
+  const clearSelection = () => { setSelectedRows(new Set()); setBulkStatus(''); setBulkAssignee(''); };
 
-  const handleStatusChange = async (id: string, newStatus: string) => {
+  // Assignment (single)
+  const handleAssign = async (id: string, assignee: string) => {
     try {
-      const res = await fetch('/api/transfer-log', {
+      const res = await fetch(tracker.api, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id, completion_status: newStatus }),
+        body: JSON.stringify({ id, assigned_to: assignee || null }),
       });
       if (!res.ok) throw new Error('Failed');
       fetchSubmissions();
+      refreshPeople();
+    } catch {
+      alert('Failed to update assignment.');
+    }
+  };
+
+  const handleStatusChange = async (id: string, newStatus: string) => {
+    const current = submissions.find((s) => s.id === id);
+    let invalidation: InvalidationInput | null = null;
+    if (newStatus === workflow.invalidated) {
+      invalidation = await askInvalidation();
+      if (!invalidation) return;
+    }
+    const statusReason = invalidation ? '' : askStatusReason(table, current?.completion_status || '', newStatus);
+    if (statusReason === null) return;
+    try {
+      const res = await fetch(tracker.api, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, completion_status: newStatus, status_reason: statusReason || undefined, ...invalidation }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to update status.');
+        return;
+      }
+      fetchSubmissions();
     } catch {
       alert('Failed to update status.');
     }
   };
 
-  const handleDelete = async (sub: TransferLogSubmission) => {
-    const wellDisp = sub.well_name ? `${sub.well_code} \u2013 ${sub.well_name}` : sub.well_code;
-    if (!confirm(`Are you sure you want to delete this entry?\n\nWell: ${wellDisp}\n\nThis action cannot be undone.`))
+  const handleDelete = async (sub: TrackerSubmission) => {
+    if (!confirm(`Are you sure you want to delete this entry?\n\n${titleField.label}: ${formatField(titleField, sub)}\n\nIt can be restored from the Trash.`))
       return;
     try {
-      const res = await fetch('/api/transfer-log', {
+      const res = await fetch(tracker.api, {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ id: sub.id }),
@@ -2932,32 +2628,58 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
     }
   };
 
-  const mapWells = useCallback((data: any[]) => data, []);
+  const handleRestore = async (sub: TrackerSubmission) => {
+    try {
+      const res = await fetch(tracker.api, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: sub.id, restore: true }),
+      });
+      if (!res.ok) throw new Error('Failed');
+      closeDetail();
+      fetchSubmissions();
+    } catch {
+      alert('Failed to restore. Please try again.');
+    }
+  };
 
-  const startEdit = (sub: TransferLogSubmission) => {
+  const startEdit = (sub: TrackerSubmission) => {
     setEditMode(true);
     setEditData({
-      accounting_group: sub.accounting_group,
-      well_code: sub.well_code,
-      well_name: sub.well_name,
-      search_key: sub.search_key,
+      ...Object.fromEntries(form.fields.map((f) => [f.name, sub[f.name] ?? ''])),
       notes: sub.notes,
       completion_status: sub.completion_status,
     });
     setEditAttachments(sub.attachments ? [...sub.attachments] : []);
+    setEditErrors({});
   };
 
   const saveEdit = async () => {
-    if (detailIndex === null) return;
-    const sub = submissions[detailIndex];
-    if (!editData.well_code) { alert('Please fill in all required fields.'); return; }
+    const sub = submissions.find((s) => s.id === detailId);
+    if (!sub) return;
+    const { errors: invalid } = validatePayload(tracker.schema, { ...editData, attachments: editAttachments }, sub);
+    setEditErrors(invalid || {});
+    if (invalid) return;
+    const newStatus = editData.completion_status || sub.completion_status;
+    let invalidation: InvalidationInput | null = null;
+    if (newStatus !== sub.completion_status && newStatus === workflow.invalidated) {
+      invalidation = await askInvalidation();
+      if (!invalidation) return;
+    }
+    const statusReason = invalidation ? '' : askStatusReason(table, sub.completion_status, newStatus);
+    if (statusReason === null) return;
     try {
-      const res = await fetch('/api/transfer-log', {
+      const res = await fetch(tracker.api, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: sub.id, ...editData, attachments: editAttachments }),
+        body: JSON.stringify({ id: sub.id, ...editData, attachments: editAttachments, status_reason: statusReason || undefined, ...invalidation }),
       });
-      if (!res.ok) throw new Error('Failed');
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        if (res.status === 422 && data.fields) { setEditErrors(data.fields); return; }
+        alert(data.error || 'Failed to save changes.');
+        return;
+      }
       setEditMode(false);
       fetchSubmissions();
     } catch {
@@ -2965,8 +2687,8 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
     }
   };
 
-  const openDetail = (index: number) => { setDetailIndex(index); setEditMode(false); };
-  const closeDetail = () => { setDetailIndex(null); setEditMode(false); };
+  const openDetail = (id: string) => { setDetailId(id); setEditMode(false); };
+  const closeDetail = () => { setDetailId(null); setEditMode(false); };
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') closeDetail(); };
@@ -2974,31 +2696,40 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
     return () => document.removeEventListener('keydown', handler);
   }, []);
 
-  const detailSub = detailIndex !== null ? submissions[detailIndex] : null;
-
-  const wellDisp = (s: TransferLogSubmission) =>
-    s.well_name ? `${s.well_code} \u2013 ${s.well_name}` : s.well_code;
+  const detailSub = submissions.find((s) => s.id === detailId) ?? null;
+  // Current status plus the statuses the workflow allows moving to
+  const statusOptions = detailSub ? [detailSub.completion_status, ...nextStatuses(table, detailSub.completion_status)] : [];
 
   return (
     <>
       <div className="submissions-card">
         <div className="form-card-accent" />
         <div className="submissions-header">
-          <h2>Submissions</h2>
-          <span className="submissions-count">{filtered.length} of {submissions.length}</span>
+          <h2>{showTrash ? 'Trash' : 'Submissions'}</h2>
+          <span className="submissions-count">{total} total</span>
+          {canUpdateStatus && tracker.spreadsheetApi && (
+            <button className="upload-spreadsheet-btn" onClick={() => setShowUpload(true)}>
+              Upload Spreadsheet
+            </button>
+          )}
         </div>
 
         {/* Bulk bar */}
-        {selectedRows.size > 0 && (
+        {canUpdateStatus && selectedRows.size > 0 && (
           <div className="bulk-bar">
             <span className="bulk-count">{selectedRows.size} selected</span>
             <select className="bulk-select" value={bulkStatus} onChange={(e) => setBulkStatus(e.target.value)}>
               <option value="">Change status to...</option>
-              <option value="Pending">Pending</option>
-              <option value="Complete">Complete</option>
-              <option value="Request Invalidated">Request Invalidated</option>
+              {workflow.statuses.map((st) => <option key={st} value={st}>{st}</option>)}
             </select>
-            <button className="bulk-apply" disabled={!bulkStatus} onClick={applyBulk}>Apply</button>
+            {canUpdateAssignee && (
+              <select className="bulk-select" value={bulkAssignee} onChange={(e) => setBulkAssignee(e.target.value)}>
+                <option value="">Assign to...</option>
+                <option value={UNASSIGNED}>Unassigned</option>
+                {assignableUsers.map((u) => <option key={u} value={u}>{u.split('@')[0]}</option>)}
+              </select>
+            )}
+            <button className="bulk-apply" disabled={!bulkStatus && !bulkAssignee} onClick={applyBulk}>Apply</button>
             <button className="bulk-cancel" onClick={clearSelection}>Cancel</button>
           </div>
         )}
@@ -3007,31 +2738,38 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
         <div className="filters-bar">
           <div className="filter-group">
             <span className="filter-label">Search</span>
-            <input className="filter-input" placeholder="Well code, name, or search key" value={filters.search}
+            <input className="filter-input" placeholder={form.fields.filter((f) => f.searchable && !f.hidden).map((f) => f.label).join(', ')} value={filters.search}
               onChange={(e) => setFilters((f) => ({ ...f, search: e.target.value }))} />
           </div>
           <div className="filter-group">
             <span className="filter-label">Status</span>
             <select className="filter-select" value={filters.status} onChange={(e) => setFilters((f) => ({ ...f, status: e.target.value }))}>
               <option value="">All Statuses</option>
-              <option value="Pending">Pending</option>
-              <option value="Complete">Complete</option>
-              <option value="Request Invalidated">Request Invalidated</option>
-            </select>
-          </div>
-          <div className="filter-group">
-            <span className="filter-label">Accounting Group</span>
-            <select className="filter-select" value={filters.accountingGroup || ''} onChange={(e) => setFilters((f) => ({ ...f, accountingGroup: e.target.value }))}>
-              <option value="">All Groups</option>
-              <option value="JIB">JIB</option>
-              <option value="Revenue">Revenue</option>
+              {workflow.statuses.map((st) => <option key={st} value={st}>{st}</option>)}
             </select>
           </div>
+          {filterFields.map((field) => (
+            <div key={field.name} className="filter-group">
+              <span className="filter-label">{field.label}</span>
+              <select className="filter-select" value={fieldFilters[field.name] || ''} onChange={(e) => setFieldFilters((f) => ({ ...f, [field.name]: e.target.value }))}>
+                <option value="">All</option>
+                {(field.options || []).map((o) => <option key={o} value={o}>{o}</option>)}
+              </select>
+            </div>
+          ))}
           <div className="filter-group">
             <span className="filter-label">Created By</span>
             <select className="filter-select" value={filters.createdBy} onChange={(e) => setFilters((f) => ({ ...f, createdBy: e.target.value }))}>
               <option value="">All Users</option>
-              {uniqueUsers.map((u) => <option key={u} value={u}>{u.split('@')[0]}</option>)}
+              {people.creators.map((u) => <option key={u} value={u}>{u.split('@')[0]}</option>)}
+            </select>
+          </div>
+          <div className="filter-group">
+            <span className="filter-label">Assigned To</span>
+            <select className="filter-select" value={filters.assignedTo || ''} onChange={(e) => setFilters((f) => ({ ...f, assignedTo: e.target.value }))}>
+              <option value="">Anyone</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
             </select>
           </div>
           <div className="filter-divider" />
@@ -3043,28 +2781,41 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
             <span className="filter-label">Request Date To</span>
             <input type="date" className="filter-input filter-date" value={filters.dateTo} onChange={(e) => setFilters((f) => ({ ...f, dateTo: e.target.value }))} />
           </div>
+          <div className="filter-group">
+            <span className="filter-label">Older Than (Days)</span>
+            <input type="number" min="0" className="filter-input filter-days" value={filters.olderThan || ''} onChange={(e) => setFilters((f) => ({ ...f, olderThan: e.target.value }))} />
+          </div>
+          <SavedViews app={tracker.app} query={viewQuery} onApply={applyView} />
           <button className="filter-clear" onClick={clearFilters}>Clear All</button>
-          <button className="export-btn" onClick={() => {
-            const headers = ['Search Key', 'Well Code / Name', 'Accounting Group', 'Request Date', 'Completion Status', 'Sign-Off Date', 'Notes', 'Created By'];
-            const rows = filtered.map((s) => [
-              s.search_key || '',
-              wellDisp(s),
-              s.accounting_group,
+          <button
+            className={`filter-clear ${showTrash ? 'active' : ''}`}
+            onClick={() => { toggleTrash(); setSelectedRows(new Set()); closeDetail(); }}
+          >
+            🗑 Trash
+          </button>
+          <button className="export-btn" onClick={async () => {
+            const headers = [...columns.map((f) => f.label), 'Request Date', 'Completion Status', 'Sign-Off Date', 'Notes', 'Created By', 'Assigned To', 'Invalidation Reason'];
+            const all = await fetchAll().catch(() => null);
+            if (!all) { alert('Failed to export. Please try again.'); return; }
+            const rows = all.map((s) => [
+              ...columns.map((f) => (s[f.name] === null || s[f.name] === undefined || s[f.name] === '' ? '' : formatField(f, s))),
               formatDate(s.request_date),
               s.completion_status,
               formatDate(s.sign_off_date),
               s.notes || '',
               s.created_by,
+              s.assigned_to || '',
+              formatInvalidation(s.invalidation_reason, s.invalidation_note),
             ]);
-            exportToExcel('transfer-log.xlsx', headers, rows, [
-              { col: 4, options: ['Pending', 'Complete', 'Request Invalidated'] },
+            exportToExcel(`${tracker.app}.xlsx`, headers, rows, [
+              { col: columns.length + 1, options: workflow.statuses },
             ]);
           }}>
             Export
           </button>
         </div>
 
-        {activeFilterTags.length > 0 && (
+        {activeFilterTags.length + activeFieldTags.length > 0 && (
           <div className="active-filters">
             {activeFilterTags.map((t) => (
               <span key={t.key} className="filter-tag">
@@ -3072,61 +2823,72 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
                 <button className="filter-tag-remove" onClick={() => setFilters((f) => ({ ...f, [t.key]: '' }))}>×</button>
               </span>
             ))}
+            {activeFieldTags.map((t) => (
+              <span key={t.key} className="filter-tag">
+                {t.label}
+                <button className="filter-tag-remove" onClick={() => setFieldFilters((f) => ({ ...f, [t.key]: '' }))}>×</button>
+              </span>
+            ))}
           </div>
         )}
 
         {/* Table */}
         {loading ? (
           <div className="empty-state"><p>Loading submissions...</p></div>
-        ) : filtered.length === 0 ? (
+        ) : submissions.length === 0 ? (
           <div className="empty-state">
-            <p>{submissions.length ? 'No submissions match your filters' : 'No submissions yet'}</p>
+            <p>{activeFilterTags.length + activeFieldTags.length ? 'No submissions match your filters' : showTrash ? 'Trash is empty' : 'No submissions yet'}</p>
           </div>
         ) : (
           <div className="table-wrapper">
             <table>
               <thead>
                 <tr>
-                  <th>
-                    <input type="checkbox" className="row-checkbox" checked={allSelected}
-                      ref={(el) => { if (el) el.indeterminate = someSelected && !allSelected; }}
-                      onChange={toggleAll} />
-                  </th>
+                  {canUpdateStatus && (
+                    <th>
+                      <input type="checkbox" className="row-checkbox" checked={allSelected}
+                        ref={(el) => { if (el) el.indeterminate = someSelected && !allSelected; }}
+                        onChange={toggleAll} />
+                    </th>
+                  )}
                   <th>#</th>
-                  <th>Search Key</th>
-                  <th>Well Code / Name</th>
-                  <th>Accounting Group</th>
-                  <th>Request Date</th>
-                  <th>Completion Status</th>
-                  <th>Sign-Off Status</th>
+                  {columns.map((f) => <SortHeader key={f.name} label={f.label} column={f.name} sort={sort} onSort={toggleSort} />)}
+                  <SortHeader label="Request Date" column="request_date" sort={sort} onSort={toggleSort} />
+                  <SortHeader label="Completion Status" column="completion_status" sort={sort} onSort={toggleSort} />
+                  <SortHeader label="Sign-Off Status" column="sign_off_date" sort={sort} onSort={toggleSort} />
                   <th style={{ width: notesWidth, minWidth: 80 }}>
                     Notes
                     <span className="col-resize-handle" onMouseDown={onNotesResizeStart} />
                   </th>
-                  <th>Created By</th>
+                  <SortHeader label="Created By" column="created_by" sort={sort} onSort={toggleSort} />
                   <th>Attachments</th>
                 </tr>
               </thead>
               <tbody>
-                {filtered.map((s, i) => {
+                {submissions.map((s, i) => {
                   const ac = s.attachments?.length || 0;
                   return (
                     <tr key={s.id}>
-                      <td onClick={(e) => e.stopPropagation()}>
-                        <input type="checkbox" className="row-checkbox" checked={selectedRows.has(s.id!)} onChange={() => toggleRow(s.id!)} />
-                      </td>
-                      <td style={{ color: 'var(--text-muted)' }} onClick={() => openDetail(submissions.indexOf(s))}>{i + 1}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.search_key || '\u2014'}</td>
-                      <td style={{ fontWeight: 600 }} onClick={() => openDetail(submissions.indexOf(s))}>{wellDisp(s)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.accounting_group}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.request_date)}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>
+                      {canUpdateStatus && (
+                        <td onClick={(e) => e.stopPropagation()}>
+                          <input type="checkbox" className="row-checkbox" checked={selectedRows.has(s.id!)} onChange={() => toggleRow(s.id!)} />
+                        </td>
+                      )}
+                      <td style={{ color: 'var(--text-muted)' }} onClick={() => openDetail(s.id!)}>{(page - 1) * PAGE_SIZE + i + 1}</td>
+                      {columns.map((f) => (
+                        <td key={f.name} style={f === titleField ? { fontWeight: 600 } : undefined} onClick={() => openDetail(s.id!)}>
+                          <ProfileLink value={s[f.name]} onOpen={profileOpener(f)}>{formatField(f, s)}</ProfileLink>
+                        </td>
+                      ))}
+                      <td onClick={() => openDetail(s.id!)}>{formatDate(s.request_date)}</td>
+                      <td onClick={() => openDetail(s.id!)}>
                         <span className={`status ${statusClass(s.completion_status)}`}>{s.completion_status}</span>
+                        <OverdueFlag tracker={tracker} record={s} />
                       </td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{formatDate(s.sign_off_date)}</td>
-                      <td className="cell-truncate" style={{ maxWidth: notesWidth }} onClick={() => openDetail(submissions.indexOf(s))} title={s.notes || ''}>{s.notes || '\u2014'}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{s.created_by}</td>
-                      <td onClick={() => openDetail(submissions.indexOf(s))}>{ac > 0 ? `📎 ${ac}` : '\u2014'}</td>
+                      <td onClick={() => openDetail(s.id!)}>{formatDate(s.sign_off_date)}</td>
+                      <td className="cell-truncate" style={{ maxWidth: notesWidth }} onClick={() => openDetail(s.id!)} title={s.notes || ''}>{s.notes || '\u2014'}</td>
+                      <td onClick={() => openDetail(s.id!)}>{s.created_by}</td>
+                      <td onClick={() => openDetail(s.id!)}>{ac > 0 ? `📎 ${ac}` : '\u2014'}</td>
                     </tr>
                   );
                 })}
@@ -3134,6 +2896,7 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
             </table>
           </div>
         )}
+        <Pagination page={page} total={total} onPage={(p) => { setPage(p); setSelectedRows(new Set()); }} />
       </div>
 
       {/* Detail / Edit Modal */}
@@ -3141,62 +2904,50 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
         <div className="modal-overlay" onClick={(e) => { if (e.target === e.currentTarget) closeDetail(); }}>
           <div className="modal">
             <div className="modal-header">
-              <h2>{editMode ? 'Editing Entry' : 'Entry Detail'} — {wellDisp(detailSub)}</h2>
+              <h2>{editMode ? 'Editing Entry' : 'Entry Detail'} — {formatField(titleField, detailSub)}</h2>
               <div className="modal-actions">
                 {editMode ? (
                   <>
                     <button className="save-btn" onClick={saveEdit}>Save</button>
                     <button className="cancel-edit-btn" onClick={() => setEditMode(false)}>Cancel</button>
                   </>
+                ) : detailSub.deleted_at ? (
+                  canDeleteRecord(user, detailSub) && (
+                    <button className="edit-btn" onClick={() => handleRestore(detailSub)}>↺ Restore</button>
+                  )
                 ) : (
                   <>
-                    <button className="delete-btn" onClick={() => handleDelete(detailSub)}>🗑 Delete</button>
-                    <button className="edit-btn" onClick={() => startEdit(detailSub)}>✎ Edit</button>
+                    {canDeleteRecord(user, detailSub) && (
+                      <button className="delete-btn" onClick={() => handleDelete(detailSub)}>🗑 Delete</button>
+                    )}
+                    {canEditRecord(user, detailSub) && (
+                      <button className="edit-btn" onClick={() => startEdit(detailSub)}>✎ Edit</button>
+                    )}
                   </>
                 )}
                 <button className="modal-close" onClick={closeDetail}>×</button>
               </div>
             </div>
             <div className="modal-body">
+              {detailSub.deleted_at && (
+                <div className="trash-banner">
+                  Deleted by {detailSub.deleted_by || 'unknown'} on {formatDate(detailSub.deleted_at)}
+                </div>
+              )}
               {editMode ? (
                 <div className="detail-grid">
-                  <div className="detail-field">
-                    <div className="detail-label">Accounting Group</div>
-                    <select className="edit-input" value={editData.accounting_group || ''}
-                      onChange={(e) => setEditData((d) => ({ ...d, accounting_group: e.target.value as any }))}>
-                      <option value="JIB">JIB</option>
-                      <option value="Revenue">Revenue</option>
-                    </select>
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Well Code / Name</div>
-                    <SearchDropdown
-                      placeholder="Search well..."
-                      value={editData.well_code || ''}
-                      displayValue={editData.well_name ? `${editData.well_code} \u2013 ${editData.well_name}` : editData.well_code || ''}
-                      onChange={(val) => setEditData((d) => ({ ...d, well_code: val, well_name: '', search_key: '' }))}
-                      onSelect={(item: any) => setEditData((d) => ({ ...d, well_code: item.well_code, well_name: item.well_name || '', search_key: item.search_key || '' }))}
-                      fetchUrl="/api/wells"
-                      mapResult={mapWells}
-                      renderOption={(item: any) => (
-                        <>
-                          <span className="search-option-number">{item.well_code}</span>
-                          <span className="search-option-name">{item.well_name}</span>
-                        </>
-                      )}
-                    />
-                  </div>
-                  <div className="detail-field">
-                    <div className="detail-label">Search Key</div>
-                    <input type="text" className="edit-input" value={editData.search_key || ''} readOnly />
-                  </div>
+                  {form.fields.filter((f) => !f.hidden).map((f) => (
+                    <div key={f.name} className={`detail-field ${f.type === 'textarea' ? 'full' : ''}`}>
+                      <div className="detail-label">{f.label}</div>
+                      <TrackerFieldInput field={f} values={editData} onChange={(patch) => setEditData((d) => ({ ...d, ...patch }))} variant="edit" />
+                      <FieldError errors={editErrors} field={f.name} />
+                    </div>
+                  ))}
                   <div className="detail-field">
                     <div className="detail-label">Completion Status</div>
-                    <select className="edit-input" value={editData.completion_status || 'Pending'}
+                    <select className="edit-input" value={editData.completion_status || workflow.initial} disabled={!canUpdateStatus}
                       onChange={(e) => setEditData((d) => ({ ...d, completion_status: e.target.value as any }))}>
-                      <option value="Pending">Pending</option>
-                      <option value="Complete">Complete</option>
-                      <option value="Request Invalidated">Request Invalidated</option>
+                      {statusOptions.map((st) => <option key={st} value={st}>{st}</option>)}
                     </select>
                   </div>
                   <div className="detail-field">
@@ -3211,6 +2962,7 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
                     <div className="detail-label">Notes</div>
                     <textarea className="edit-textarea" value={editData.notes || ''}
                       onChange={(e) => setEditData((d) => ({ ...d, notes: e.target.value }))} />
+                    <FieldError errors={editErrors} field="notes" />
                   </div>
                   <div className="detail-field full">
                     <div className="detail-label">Attachments</div>
@@ -3227,29 +2979,28 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
                       </div>
                     )}
                     <input ref={editFileRef} type="file" multiple
-                      onChange={(e) => {
-                        if (e.target.files) setEditAttachments((p) => [...p, ...Array.from(e.target.files!).map((f) => f.name)]);
+                      onChange={async (e) => {
+                        const files = e.target.files ? Array.from(e.target.files) : [];
                         if (editFileRef.current) editFileRef.current.value = '';
+                        if (files.length === 0) return;
+                        try { const paths = await uploadFiles(files, tracker.app); setEditAttachments((p) => [...p, ...paths]); } catch { alert('Failed to upload attachments.'); }
                       }}
                       style={{ display: 'none' }} />
                     <button type="button" className="attach-btn" style={{ marginTop: 8 }} onClick={() => editFileRef.current?.click()}>📎 Attach file</button>
+                    <FieldError errors={editErrors} field="attachments" />
                   </div>
                 </div>
               ) : (
                 <>
                   <div className="detail-grid">
-                    <div className="detail-field">
-                      <div className="detail-label">Accounting Group</div>
-                      <div className="detail-value" style={{ fontWeight: 600 }}>{detailSub.accounting_group}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Well Code / Name</div>
-                      <div className="detail-value" style={{ fontWeight: 600 }}>{wellDisp(detailSub)}</div>
-                    </div>
-                    <div className="detail-field">
-                      <div className="detail-label">Search Key</div>
-                      <div className="detail-value">{detailSub.search_key || '\u2014'}</div>
-                    </div>
+                    {form.fields.filter((f) => !f.hidden).map((f) => (
+                      <div key={f.name} className={`detail-field ${f.type === 'textarea' ? 'full' : ''}`}>
+                        <div className="detail-label">{f.label}</div>
+                        <div className="detail-value" style={f.required ? { fontWeight: 600 } : undefined}>
+                          <ProfileLink value={detailSub[f.name]} onOpen={profileOpener(f)}>{formatField(f, detailSub)}</ProfileLink>
+                        </div>
+                      </div>
+                    ))}
                     <div className="detail-field">
                       <div className="detail-label">Request Date</div>
                       <div className="detail-value">{formatDate(detailSub.request_date)}</div>
@@ -3258,6 +3009,10 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
                       <div className="detail-label">Created By</div>
                       <div className="detail-value">{detailSub.created_by}</div>
                     </div>
+                    <div className="detail-field">
+                      <div className="detail-label">Assigned To</div>
+                      <div className="detail-value">{detailSub.assigned_to || 'Unassigned'}</div>
+                    </div>
                     <div className="detail-field">
                       <div className="detail-label">Sign-Off Date</div>
                       <div className="detail-value">{formatDate(detailSub.sign_off_date)}</div>
@@ -3268,6 +3023,18 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
                         <span className={`status ${statusClass(detailSub.completion_status)}`}>{detailSub.completion_status}</span>
                       </div>
                     </div>
+                    {detailSub.duplicate_override_reason && (
+                      <div className="detail-field full">
+                        <div className="detail-label">Duplicate Override Reason</div>
+                        <div className="detail-notes">{detailSub.duplicate_override_reason}</div>
+                      </div>
+                    )}
+                    {detailSub.invalidation_reason && (
+                      <div className="detail-field full">
+                        <div className="detail-label">Invalidation Reason</div>
+                        <div className="detail-notes">{formatInvalidation(detailSub.invalidation_reason, detailSub.invalidation_note)}</div>
+                      </div>
+                    )}
                     <div className="detail-field full">
                       <div className="detail-label">Notes</div>
                       <div className={`detail-notes ${detailSub.notes ? '' : 'empty'}`}>{detailSub.notes || 'No notes provided'}</div>
@@ -3300,21 +3067,42 @@ function TransferLogSubmissionsView({ openId, onOpenIdHandled }: { openId?: stri
                       )}
                     </div>
                   </div>
-                  <div className="detail-status-row">
-                    <label>Update Status:</label>
-                    <select className="detail-status-select" value={detailSub.completion_status}
-                      onChange={(e) => handleStatusChange(detailSub.id!, e.target.value)}>
-                      <option value="Pending">Pending</option>
-                      <option value="Complete">Complete</option>
-                      <option value="Request Invalidated">Request Invalidated</option>
-                    </select>
-                  </div>
+                  {canUpdateStatus && (
+                    <div className="detail-status-row">
+                      <label>Update Status:</label>
+                      <select className="detail-status-select" value={detailSub.completion_status}
+                        onChange={(e) => handleStatusChange(detailSub.id!, e.target.value)}>
+                        {statusOptions.map((st) => <option key={st} value={st}>{st}</option>)}
+                      </select>
+                    </div>
+                  )}
+                  {canUpdateAssignee && (
+                    <div className="detail-status-row">
+                      <label>Assign To:</label>
+                      <select className="detail-status-select" value={detailSub.assigned_to || ''}
+                        onChange={(e) => handleAssign(detailSub.id!, e.target.value)}>
+                        <option value="">Unassigned</option>
+                        {assignableUsers.map((u) => <option key={u} value={u}>{u.split('@')[0]}</option>)}
+                      </select>
+                    </div>
+                  )}
+                  <CommentThread table={table} recordId={detailSub.id!} readOnly={!!detailSub.deleted_at} />
+                  <RequestHistory table={table} recordId={detailSub.id!} refreshKey={detailSub} />
                 </>
               )}
             </div>
           </div>
         </div>
       )}
+      {showUpload && (
+        <SpreadsheetUploadModal
+          api={tracker.spreadsheetApi!}
+          keyLabel={titleField.label}
+          onClose={() => setShowUpload(false)}
+          onApplied={fetchSubmissions}
+        />
+      )}
+      {invalidationDialog}
     </>
   );
 }
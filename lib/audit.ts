@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  FieldChange,
+  RequestEventAction,
+  RequestEventSource,
+} from './types';
+import { TRACKER_TABLES } from './trackers';
+
+const EVENTS_TABLE = 'request_events';
+
+// Tables whose rows are tracked in request_events
+export const AUDITED_TABLES: string[] = TRACKER_TABLES;
+
+// Bookkeeping columns that never show up as field-level changes
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_by']);
+
+interface NewRequestEvent {
+  table_name: string;
+  record_id: string;
+  action: RequestEventAction;
+  source: RequestEventSource;
+  actor: string;
+  changes: Record<string, FieldChange>;
+  reason?: string | null;
+}
+
+/**
+ * Field-level before/after diff between two versions of a row.
+ * Pass `{}` as `before` for a creation snapshot, or as `after` for a deletion.
+ */
+export function diffRecords(
+  before: Record<string, any>,
+  after: Record<string, any>
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = before[key] ?? null;
+    const to = after[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append events to the request_events history table.
+ * Events with no field changes (e.g. a save that changed nothing) are dropped.
+ * Failures are logged rather than thrown — the mutation has already been applied.
+ */
+export async function recordEvents(
+  supabase: SupabaseClient,
+  events: NewRequestEvent[]
+): Promise<void> {
+  const rows = events.filter(
+    (e) => e.action !== 'updated' || Object.keys(e.changes).length > 0
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from(EVENTS_TABLE).insert(rows);
+  if (error) console.error('Failed to record request events:', error);
+}
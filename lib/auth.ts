@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, type NextAuthOptions } from 'next-auth';
+import AzureADProvider from 'next-auth/providers/azure-ad';
+import type { SessionUser, UserRole } from './types';
+
+/**
+ * Map Azure AD group object IDs (the `groups` claim) to app roles.
+ * Group IDs are configured as comma-separated lists; every signed-in
+ * user is at least a Submitter.
+ */
+function resolveRoles(groups: string[]): UserRole[] {
+  const groupIds = (value: string | undefined) =>
+    (value || '').split(',').map((g) => g.trim()).filter(Boolean);
+
+  const roles: UserRole[] = ['Submitter'];
+  if (groupIds(process.env.AZURE_AD_PROCESSOR_GROUP_IDS).some((g) => groups.includes(g))) {
+    roles.push('Processor');
+  }
+  if (groupIds(process.env.AZURE_AD_ADMIN_GROUP_IDS).some((g) => groups.includes(g))) {
+    roles.push('Admin');
+  }
+  return roles;
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: [
+    AzureADProvider({
+      clientId: process.env.AZURE_AD_CLIENT_ID!,
+      clientSecret: process.env.AZURE_AD_CLIENT_SECRET!,
+      tenantId: process.env.AZURE_AD_TENANT_ID!,
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, profile }) {
+      // The groups claim is only present on sign-in; keep the resolved roles on the token
+      if (profile) {
+        const groups = (profile as { groups?: string[] }).groups || [];
+        token.roles = resolveRoles(groups);
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      // Ensure email is always available in the session
+      if (token?.email && session.user) {
+        session.user.email = token.email;
+      }
+      if (session.user) {
+        session.user.roles = token.roles || ['Submitter'];
+      }
+      return session;
+    },
+  },
+};
+
+/**
+ * Resolve the signed-in user for an API route handler.
+ * Returns a 401 response when there is no Azure AD session, so callers can
+ * simply `return` it before touching the service-role Supabase client.
+ */
+export async function requireUser(): Promise<SessionUser | NextResponse> {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+
+  if (!email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return {
+    email,
+    name: session.user?.name || email,
+    roles: session.user?.roles || ['Submitter'],
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * In-memory TTL caches for server-side lookups (see lib/snowflake.ts).
+ * Each cache lives for the life of the server instance, evicts its
+ * oldest entry once full, and counts hits and misses so the admin
+ * metrics route can show how well it's doing.
+ */
+
+export interface CacheStats {
+  name: string;
+  ttlSeconds: number;
+  size: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or null before the first lookup */
+  hitRate: number | null;
+}
+
+export interface TtlCache<T> {
+  /** Cached value for `key`, or the result of `load` (cached on success). */
+  getOrLoad(key: string, load: () => Promise<T>): Promise<T>;
+  clear(): void;
+  stats(): CacheStats;
+}
+
+const caches: TtlCache<unknown>[] = [];
+
+export function createTtlCache<T>(name: string, { ttlMs, maxEntries = 500 }: { ttlMs: number; maxEntries?: number }): TtlCache<T> {
+  // Pending loads are stored too, so concurrent lookups of one key share a query
+  const entries = new Map<string, { value: Promise<T>; expires: number }>();
+  let hits = 0;
+  let misses = 0;
+
+  const cache: TtlCache<T> = {
+    getOrLoad(key, load) {
+      const now = Date.now();
+      const entry = entries.get(key);
+      if (entry && entry.expires > now) {
+        hits++;
+        return entry.value;
+      }
+      misses++;
+      entries.delete(key);
+
+      const value = load();
+      entries.set(key, { value, expires: now + ttlMs });
+      // Failures aren't cached: the next lookup retries
+      value.catch(() => {
+        if (entries.get(key)?.value === value) entries.delete(key);
+      });
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+      return value;
+    },
+    clear() {
+      entries.clear();
+    },
+    stats() {
+      const lookups = hits + misses;
+      return {
+        name,
+        ttlSeconds: ttlMs / 1000,
+        size: entries.size,
+        hits,
+        misses,
+        hitRate: lookups ? Math.round((hits / lookups) * 1000) / 1000 : null,
+      };
+    },
+  };
+
+  caches.push(cache as TtlCache<unknown>);
+  return cache;
+}
+
+export function cacheStats(): CacheStats[] {
+  return caches.map((c) => c.stats());
+}
@@ -0,0 +1,39 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RequestComment } from './types';
+import { notifyCommented } from './notifications';
+
+export const COMMENTS_TABLE = 'request_comments';
+
+/**
+ * Post a comment to a request's thread and email the submitter and everyone
+ * who commented before, except the author. Throws if the comment can't be
+ * saved; a failed notification is only logged (see lib/notifications.ts).
+ */
+export async function addComment(
+  supabase: SupabaseClient,
+  table: string,
+  record: any,
+  author: string,
+  body: string,
+  attachments: string[] = []
+): Promise<RequestComment> {
+  const { data: prior, error: priorError } = await supabase
+    .from(COMMENTS_TABLE)
+    .select('author')
+    .eq('table_name', table)
+    .eq('record_id', record.id);
+
+  if (priorError) throw priorError;
+
+  const { data, error } = await supabase
+    .from(COMMENTS_TABLE)
+    .insert([{ table_name: table, record_id: record.id, author, body, attachments }])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await notifyCommented(table, record, author, body, (prior || []).map((c: any) => c.author), supabase);
+
+  return data;
+}
@@ -0,0 +1,111 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { csvLookupProvider } from './csv-lookups';
+
+const FIXTURES = {
+  'owners.csv': [
+    'owner_number,owner_name',
+    '100587,Blackstone Minerals LLC',
+    '100234,"Abbott, Margaret L"',
+    '101460,"Delgado, Ramon ""Ray"" & Teresa"',
+  ].join('\r\n'),
+  'wells.csv': [
+    'well_code,well_name,search_key,state,county',
+    '40218,Delgado State 7,DELGADO ST 7,NM,Lea',
+    '40012,Abbott Unit 1H,ABBOTT 1H,TX,Karnes',
+    '',
+  ].join('\n'),
+  'checks.csv': [
+    'check_number,owner_number,owner_name,check_amount,check_date,reconciled',
+    '500118,100234,"Abbott, Margaret L",152.37,2026-01-15,NO',
+    '500412,100234,"Abbott, Margaret L",148.90,2026-02-17,no',
+    '500733,100587,Blackstone Minerals LLC,2310.00,2026-02-17,NO',
+    '501006,100234,"Abbott, Margaret L",87.12,2026-03-16,YES',
+  ].join('\n'),
+};
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-lookups-'));
+  for (const [name, text] of Object.entries(FIXTURES)) {
+    await fs.writeFile(path.join(dir, name), text);
+  }
+  process.env.LOOKUP_CSV_DIR = dir;
+});
+
+after(async () => {
+  delete process.env.LOOKUP_CSV_DIR;
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('csvLookupProvider', () => {
+  test('searchOwners matches number or name, case-insensitively, sorted by number', async () => {
+    assert.deepEqual(await csvLookupProvider.searchOwners('ABB'), [
+      { owner_number: '100234', owner_name: 'Abbott, Margaret L' },
+    ]);
+    assert.deepEqual(
+      (await csvLookupProvider.searchOwners('1005')).map((o) => o.owner_number),
+      ['100587']
+    );
+    assert.deepEqual(
+      (await csvLookupProvider.searchOwners('')).map((o) => o.owner_number),
+      ['100234', '100587', '101460']
+    );
+  });
+
+  test('parses quoted fields, escaped quotes and CRLF line endings', async () => {
+    const [owner] = await csvLookupProvider.searchOwners('101460');
+    assert.equal(owner.owner_name, 'Delgado, Ramon "Ray" & Teresa');
+  });
+
+  test('searchWells matches code or name', async () => {
+    assert.deepEqual(await csvLookupProvider.searchWells('delgado'), [
+      { well_code: '40218', well_name: 'Delgado State 7', search_key: 'DELGADO ST 7' },
+    ]);
+    assert.deepEqual(
+      (await csvLookupProvider.searchWells('40')).map((w) => w.well_code),
+      ['40012', '40218']
+    );
+  });
+
+  test('searchChecks leaves out reconciled checks', async () => {
+    assert.deepEqual(
+      (await csvLookupProvider.searchChecks('50')).map((c) => c.check_number),
+      ['500118', '500412', '500733']
+    );
+    assert.deepEqual(await csvLookupProvider.searchChecks('501006'), []);
+  });
+
+  test('ownerChecks returns an owner\'s unreconciled checks newest first', async () => {
+    assert.deepEqual(await csvLookupProvider.ownerChecks('100234'), [
+      {
+        check_number: '500412',
+        owner_number: '100234',
+        owner_name: 'Abbott, Margaret L',
+        check_amount: 148.9,
+        check_date: '2026-02-17',
+      },
+      {
+        check_number: '500118',
+        owner_number: '100234',
+        owner_name: 'Abbott, Margaret L',
+        check_amount: 152.37,
+        check_date: '2026-01-15',
+      },
+    ]);
+    assert.deepEqual(await csvLookupProvider.ownerChecks('999999'), []);
+  });
+
+  test('getWell returns the well with every column as attributes', async () => {
+    const well = await csvLookupProvider.getWell('40218');
+    assert.equal(well?.well_name, 'Delgado State 7');
+    assert.equal(well?.search_key, 'DELGADO ST 7');
+    assert.equal(well?.attributes.state, 'NM');
+    assert.equal(well?.attributes.county, 'Lea');
+    assert.equal(await csvLookupProvider.getWell('99999'), null);
+  });
+});
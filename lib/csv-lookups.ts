@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LookupProvider } from './lookups';
+import type { CheckOption } from './types';
+
+/**
+ * Offline lookup provider (LOOKUP_PROVIDER=csv): owners, wells and checks
+ * read from CSV files in LOOKUP_CSV_DIR (default data/lookups), searched
+ * the same way as the Snowflake queries. Files are re-read when they
+ * change, so seed data can be edited while the dev server runs.
+ *
+ *   owners.csv  owner_number, owner_name
+ *   wells.csv   well_code, well_name, search_key, plus any other attributes
+ *   checks.csv  check_number, owner_number, owner_name, check_amount, check_date, reconciled
+ */
+
+type CsvRow = Record<string, string>;
+
+const MAX_RESULTS = 50;
+
+/** Parse CSV text with a header row; handles quoted fields, escaped quotes and CRLF. */
+function parseCsv(text: string): CsvRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records.filter((r) => r.some((value) => value.trim() !== ''));
+  const columns = header.map((h) => h.trim());
+  return rows.map((r) => Object.fromEntries(columns.map((col, i) => [col, (r[i] ?? '').trim()])));
+}
+
+const files = new Map<string, { mtimeMs: number; rows: CsvRow[] }>();
+
+async function readCsv(name: string): Promise<CsvRow[]> {
+  const file = path.resolve(process.env.LOOKUP_CSV_DIR || path.join('data', 'lookups'), name);
+  const { mtimeMs } = await fs.stat(file);
+  const cached = files.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.rows;
+
+  const rows = parseCsv(await fs.readFile(file, 'utf8'));
+  files.set(file, { mtimeMs, rows });
+  return rows;
+}
+
+const contains = (value: string | undefined, search: string) =>
+  (value || '').toLowerCase().includes(search.trim().toLowerCase());
+
+const byKey = (key: string) => (a: CsvRow, b: CsvRow) => (a[key] || '').localeCompare(b[key] || '');
+
+const unreconciled = (r: CsvRow) => (r.reconciled || '').toUpperCase() !== 'YES';
+
+const toCheckOption = (r: CsvRow): CheckOption => ({
+  check_number: r.check_number,
+  owner_number: r.owner_number,
+  owner_name: r.owner_name,
+  check_amount: Number(r.check_amount) || 0,
+  check_date: r.check_date,
+});
+
+export const csvLookupProvider: LookupProvider = {
+  name: 'csv',
+  searchOwners: async (search) =>
+    (await readCsv('owners.csv'))
+      .filter((r) => contains(r.owner_number, search) || contains(r.owner_name, search))
+      .sort(byKey('owner_number'))
+      .slice(0, MAX_RESULTS)
+      .map((r) => ({ owner_number: r.owner_number, owner_name: r.owner_name })),
+  searchWells: async (search) =>
+    (await readCsv('wells.csv'))
+      .filter((r) => contains(r.well_code, search) || contains(r.well_name, search))
+      .sort(byKey('well_code'))
+      .slice(0, MAX_RESULTS)
+      .map((r) => ({ well_code: r.well_code, well_name: r.well_name, search_key: r.search_key })),
+  searchChecks: async (search) =>
+    (await readCsv('checks.csv'))
+      .filter((r) => unreconciled(r) && contains(r.check_number, search))
+      .sort(byKey('check_number'))
+      .slice(0, MAX_RESULTS)
+      .map(toCheckOption),
+  ownerChecks: async (ownerNumber) =>
+    (await readCsv('checks.csv'))
+      .filter((r) => unreconciled(r) && r.owner_number === ownerNumber)
+      .sort((a, b) => byKey('check_date')(b, a) || byKey('check_number')(a, b))
+      .map(toCheckOption),
+  getWell: async (wellCode) => {
+    const row = (await readCsv('wells.csv')).find((r) => r.well_code === wellCode);
+    return row ? { well_code: row.well_code, well_name: row.well_name, search_key: row.search_key, attributes: row } : null;
+  },
+};
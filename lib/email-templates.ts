@@ -0,0 +1,293 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createTtlCache } from './cache';
+import { TRACKER_TABLES, getTracker, type TrackerEmail } from './trackers';
+import type { EmailTemplateInfo, EmailTemplateOverride } from './types';
+
+/**
+ * Every email the app sends is rendered here from a named template:
+ * `<table>.<event>` for tracker emails (submitted, completed, assigned,
+ * invalidated, commented, report) and `sla.<level>` for the escalation
+ * digests. A template's subject, heading and intro may contain
+ * `{{variable}}` placeholders and can be overridden by Admins (stored in
+ * email_templates); the structured parts (summary fields, quoted text,
+ * tables, the View Entry button) come from the caller. Every value is
+ * HTML-escaped, and each email gets a plain-text alternative.
+ */
+
+export const TEMPLATES_TABLE = 'email_templates';
+
+/** Colors and fonts shared by every email */
+export const EMAIL_THEME = {
+  font: 'Segoe UI, Arial, sans-serif',
+  primary: '#0078d4',
+  danger: '#e74c3c',
+  text: '#1a1f2e',
+  muted: '#5a6275',
+  faint: '#8c93a3',
+  border: '#d4dae3',
+  subtle: '#f7f8fa',
+  dangerSubtle: '#fce4ec',
+  appName: 'DO Request Forms App',
+};
+
+type Tone = 'primary' | 'danger';
+
+interface TemplateDefinition extends TrackerEmail {
+  description: string;
+  /** Placeholders available in the subject, heading and intro */
+  variables: string[];
+  tone: Tone;
+  /** `automated <footer> from the …` line at the bottom */
+  footer: string;
+}
+
+export interface EmailContent {
+  /** Label/value table, e.g. a request's summary */
+  fields?: [string, string][];
+  /** Quoted block such as a comment or invalidation reason */
+  quote?: { label?: string; text: string };
+  /** Data table; a row's first cell links to `href` if given */
+  table?: { columns: string[]; rows: { cells: string[]; href?: string }[] };
+  button?: { label: string; href: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const RECORD_VARIABLES = ['label', 'owner', 'well', 'status', '<any column>'];
+
+const SHARED_EVENTS: Record<string, Omit<TemplateDefinition, 'description'>> = {
+  assigned: {
+    subject: 'Assigned to you — {{label}}',
+    heading: 'Request Assigned',
+    intro: '{{actor}} {{action}} {{label}} to you. Current status: {{status}}.',
+    variables: [...RECORD_VARIABLES, 'actor', 'action'],
+    tone: 'primary',
+    footer: 'notification',
+  },
+  invalidated: {
+    subject: 'Request invalidated — {{label}}',
+    heading: 'Request Invalidated',
+    intro: '{{actor}} marked {{label}} as Request Invalidated.',
+    variables: [...RECORD_VARIABLES, 'actor', 'reason'],
+    tone: 'danger',
+    footer: 'notification',
+  },
+  commented: {
+    subject: 'New comment — {{label}}',
+    heading: 'New Comment',
+    intro: '{{actor}} commented on {{label}}.',
+    variables: [...RECORD_VARIABLES, 'actor', 'comment'],
+    tone: 'primary',
+    footer: 'notification',
+  },
+};
+
+const SLA_VARIABLES = ['count', 'manager_days'];
+
+function buildRegistry(): Record<string, TemplateDefinition> {
+  const registry: Record<string, TemplateDefinition> = {};
+  for (const table of TRACKER_TABLES) {
+    const tracker = getTracker(table);
+    for (const event of ['submitted', 'completed'] as const) {
+      registry[`${table}.${event}`] = {
+        ...tracker.emails[event],
+        description: `${tracker.title}: ${event === 'submitted' ? 'submission confirmation' : 'request completed'}`,
+        variables: RECORD_VARIABLES,
+        tone: 'primary',
+        footer: 'confirmation',
+      };
+    }
+    for (const [event, template] of Object.entries(SHARED_EVENTS)) {
+      registry[`${table}.${event}`] = { ...template, description: `${tracker.title}: request ${event}` };
+    }
+    if (tracker.emails.report) {
+      registry[`${table}.report`] = {
+        ...tracker.emails.report,
+        description: `${tracker.title}: monthly pending report`,
+        variables: ['month', 'count', 'items'],
+        tone: 'primary',
+        footer: 'report',
+      };
+    }
+  }
+  registry['sla.assignee'] = {
+    subject: 'Overdue requests — {{count}} past SLA',
+    heading: 'Overdue Requests',
+    intro: 'These requests assigned to you are past their SLA due date.',
+    description: 'SLA digest to an assignee',
+    variables: SLA_VARIABLES,
+    tone: 'danger',
+    footer: 'notification',
+  };
+  registry['sla.manager'] = {
+    subject: 'Overdue requests — {{count}} past SLA',
+    heading: 'Overdue Requests Escalated',
+    intro: 'These requests are unassigned or still open {{manager_days}}+ business days after their SLA due date.',
+    description: 'SLA escalation digest to managers',
+    variables: SLA_VARIABLES,
+    tone: 'danger',
+    footer: 'notification',
+  };
+  return registry;
+}
+
+const TEMPLATES = buildRegistry();
+
+export const TEMPLATE_NAMES = Object.keys(TEMPLATES);
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Fill `{{name}}` placeholders; unknown names are left as typed so mistakes show. */
+function fill(template: string, vars: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) =>
+    vars[name] === undefined || vars[name] === null ? match : String(vars[name])
+  );
+}
+
+/** Placeholders in `text` that a template doesn't provide. */
+export function unknownPlaceholders(name: string, text: string): string[] {
+  const template = TEMPLATES[name];
+  // Tracker templates also take any column of the record
+  if (!template || template.variables.includes('<any column>')) return [];
+  const used = [...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map((m) => m[1]);
+  return [...new Set(used.filter((v) => !template.variables.includes(v)))];
+}
+
+const overrideCache = createTtlCache<Map<string, EmailTemplateOverride>>('email templates', { ttlMs: 60 * 1000 });
+
+async function loadOverrides(supabase: SupabaseClient) {
+  return overrideCache.getOrLoad('all', async () => {
+    const { data, error } = await supabase.from(TEMPLATES_TABLE).select('*');
+    if (error) throw error;
+    return new Map((data || []).map((o: EmailTemplateOverride) => [o.name, o]));
+  });
+}
+
+/** Drop cached overrides after an Admin edits them. */
+export function clearTemplateCache() {
+  overrideCache.clear();
+}
+
+/** Every template with its defaults and any saved override, for the admin editor. */
+export async function listTemplates(supabase: SupabaseClient): Promise<EmailTemplateInfo[]> {
+  const overrides = await loadOverrides(supabase);
+  return TEMPLATE_NAMES.map((name) => {
+    const { subject, heading, intro, description, variables } = TEMPLATES[name];
+    return { name, description, variables, defaults: { subject, heading, intro }, override: overrides.get(name) || null };
+  });
+}
+
+function htmlBody(template: TemplateDefinition, heading: string, intro: string, content: EmailContent): string {
+  const t = EMAIL_THEME;
+  const accent = template.tone === 'danger' ? t.danger : t.primary;
+  const td = `padding:6px 10px;border:1px solid ${t.border};font-size:13px;`;
+  const th = `${td}font-weight:600;background:${t.subtle};white-space:nowrap;`;
+  const parts: string[] = [
+    `<h2 style="color: ${accent}; margin-bottom: 4px; font-size: 18px;">${escapeHtml(heading)}</h2>`,
+    `<p style="color: ${t.muted}; margin-top: 0; font-size: 13px; white-space: pre-wrap;">${escapeHtml(intro)}</p>`,
+  ];
+
+  if (content.quote) {
+    const label = content.quote.label ? `<strong>${escapeHtml(content.quote.label)}:</strong> ` : '';
+    const background = template.tone === 'danger' ? t.dangerSubtle : t.subtle;
+    parts.push(
+      `<div style="background: ${background}; border-radius: 6px; padding: 12px 14px; font-size: 13px; white-space: pre-wrap; margin: 16px 0;">${label}${escapeHtml(content.quote.text)}</div>`
+    );
+  }
+  if (content.fields?.length) {
+    const rows = content.fields
+      .map(([label, value]) => `<tr><td style="${th}">${escapeHtml(label)}</td><td style="${td}">${escapeHtml(value)}</td></tr>`)
+      .join('');
+    parts.push(`<table style="border-collapse: collapse; margin: 16px 0;">${rows}</table>`);
+  }
+  if (content.table) {
+    const head = content.table.columns.map((c) => `<td style="${th}">${escapeHtml(c)}</td>`).join('');
+    const rows = content.table.rows
+      .map(({ cells, href }) => {
+        const tds = cells.map((cell, i) =>
+          i === 0 && href
+            ? `<td style="${td}"><a href="${escapeHtml(href)}" style="color:${t.primary};">${escapeHtml(cell)}</a></td>`
+            : `<td style="${td}">${escapeHtml(cell)}</td>`
+        );
+        return `<tr>${tds.join('')}</tr>`;
+      })
+      .join('');
+    parts.push(`<table style="border-collapse: collapse; margin: 16px 0;"><tr>${head}</tr>${rows}</table>`);
+  }
+  if (content.button) {
+    parts.push(
+      `<p><a href="${escapeHtml(content.button.href)}" style="display: inline-block; padding: 10px 20px; background: ${t.primary}; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 13px; font-weight: 600; font-family: ${t.font};">${escapeHtml(content.button.label)}</a></p>`
+    );
+  }
+
+  parts.push(
+    `<hr style="border: none; border-top: 1px solid ${t.border}; margin: 16px 0;" />`,
+    `<p style="font-size: 11px; color: ${t.faint};">This is an automated ${template.footer} from the ${t.appName}.</p>`
+  );
+
+  const width = content.table ? 760 : 480;
+  return `<div style="font-family: ${t.font}; color: ${t.text}; max-width: ${width}px;">\n${parts.join('\n')}\n</div>`;
+}
+
+function textBody(template: TemplateDefinition, heading: string, intro: string, content: EmailContent): string {
+  const lines = [heading, '='.repeat(heading.length), '', intro, ''];
+  if (content.quote) {
+    if (content.quote.label) lines.push(`${content.quote.label}:`);
+    lines.push(...content.quote.text.split('\n').map((l) => `  ${l}`), '');
+  }
+  if (content.fields?.length) {
+    lines.push(...content.fields.map(([label, value]) => `${label}: ${value}`), '');
+  }
+  if (content.table) {
+    lines.push(content.table.columns.join(' | '));
+    for (const { cells, href } of content.table.rows) {
+      lines.push(`- ${cells.join(' | ')}${href ? `\n  ${href}` : ''}`);
+    }
+    lines.push('');
+  }
+  if (content.button) lines.push(`${content.button.label}: ${content.button.href}`, '');
+  lines.push('--', `This is an automated ${template.footer} from the ${EMAIL_THEME.appName}.`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a named template with its Admin override (if any) applied.
+ * Throws for an unknown template name.
+ */
+export async function renderEmail(
+  supabase: SupabaseClient,
+  name: string,
+  vars: Record<string, unknown>,
+  content: EmailContent = {}
+): Promise<RenderedEmail> {
+  const template = TEMPLATES[name];
+  if (!template) throw new Error(`Unknown email template: ${name}`);
+
+  let override: EmailTemplateOverride | undefined;
+  try {
+    override = (await loadOverrides(supabase)).get(name);
+  } catch (error) {
+    // Fall back to the defaults rather than not sending at all
+    console.error('Failed to load email template overrides:', error);
+  }
+
+  const subject = fill(override?.subject || template.subject, vars);
+  const heading = fill(override?.heading || template.heading, vars);
+  const intro = fill(override?.intro || template.intro, vars);
+
+  return {
+    subject,
+    html: htmlBody(template, heading, intro, content),
+    text: textBody(template, heading, intro, content),
+  };
+}
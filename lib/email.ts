@@ -1,6 +1,14 @@
+import nodemailer from 'nodemailer';
+import { mailboxTransport } from './mailbox';
+
 /**
- * Send email via Microsoft Graph API using client credentials flow.
- * Uses: POST https://graph.microsoft.com/v1.0/users/{sender}/sendMail
+ * Outgoing email. `sendMail` hands each message to the transport named by
+ * MAIL_TRANSPORT:
+ *   graph   (default) Microsoft Graph sendMail with client credentials
+ *   smtp    nodemailer over SMTP_HOST/SMTP_PORT
+ *   mailbox captured to disk instead of sent (lib/mailbox.ts), browsable
+ *           by Admins at /api/admin/mailbox, for testing notifications and
+ *           cron emails locally
  */
 
 const TENANT_ID = process.env.MS_TENANT_ID!;
@@ -8,19 +16,31 @@ const CLIENT_ID = process.env.MS_CLIENT_ID!;
 const CLIENT_SECRET = process.env.MS_CLIENT_SECRET!;
 const SENDER = process.env.MS_SENDER_EMAIL!;
 
-interface EmailAttachment {
+export interface EmailAttachment {
   filename: string;
   content: Buffer;
   contentType?: string;
 }
 
-interface SendMailOptions {
+export interface SendMailOptions {
   to: string;
   subject: string;
   html: string;
+  /** Plain-text alternative (see lib/email-templates.ts) */
+  text?: string;
   attachments?: EmailAttachment[];
 }
 
+export interface MailTransport {
+  name: string;
+  send(message: SendMailOptions): Promise<void>;
+}
+
+/** Comma-separated recipients as a trimmed list. */
+function splitRecipients(to: string): string[] {
+  return to.split(',').map((addr) => addr.trim()).filter(Boolean);
+}
+
 async function getAccessToken(): Promise<string> {
   const url = `https://login.microsoftonline.com/${TENANT_ID}/oauth2/v2.0/token`;
 
@@ -46,45 +66,96 @@ async function getAccessToken(): Promise<string> {
   return data.access_token;
 }
 
-export async function sendMail({ to, subject, html, attachments }: SendMailOptions): Promise<void> {
-  const token = await getAccessToken();
-
-  const graphAttachments = (attachments || []).map((att) => ({
-    '@odata.type': '#microsoft.graph.fileAttachment',
-    name: att.filename,
-    contentType: att.contentType || 'application/octet-stream',
-    contentBytes: att.content.toString('base64'),
-  }));
-
-  const message: any = {
-    subject,
-    body: {
-      contentType: 'HTML',
-      content: html,
-    },
-    toRecipients: to.split(',').map((addr) => ({
-      emailAddress: { address: addr.trim() },
-    })),
-  };
-
-  if (graphAttachments.length > 0) {
-    message.attachments = graphAttachments;
-  }
+// Graph takes a single body, so the plain-text alternative isn't sent
+const graphTransport: MailTransport = {
+  name: 'graph',
+  async send({ to, subject, html, attachments }) {
+    const token = await getAccessToken();
+
+    const graphAttachments = (attachments || []).map((att) => ({
+      '@odata.type': '#microsoft.graph.fileAttachment',
+      name: att.filename,
+      contentType: att.contentType || 'application/octet-stream',
+      contentBytes: att.content.toString('base64'),
+    }));
 
-  const res = await fetch(
-    `https://graph.microsoft.com/v1.0/users/${SENDER}/sendMail`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
+    const message: any = {
+      subject,
+      body: {
+        contentType: 'HTML',
+        content: html,
       },
-      body: JSON.stringify({ message, saveToSentItems: false }),
+      toRecipients: splitRecipients(to).map((address) => ({
+        emailAddress: { address },
+      })),
+    };
+
+    if (graphAttachments.length > 0) {
+      message.attachments = graphAttachments;
     }
-  );
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Graph sendMail failed: ${res.status} ${text}`);
-  }
+    const res = await fetch(
+      `https://graph.microsoft.com/v1.0/users/${SENDER}/sendMail`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ message, saveToSentItems: false }),
+      }
+    );
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Graph sendMail failed: ${res.status} ${text}`);
+    }
+  },
+};
+
+let smtp: nodemailer.Transporter | undefined;
+
+const smtpTransport: MailTransport = {
+  name: 'smtp',
+  async send({ to, subject, html, text, attachments }) {
+    smtp ??= nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+
+    await smtp.sendMail({
+      from: process.env.SMTP_FROM || SENDER,
+      to: splitRecipients(to),
+      subject,
+      html,
+      text,
+      attachments: (attachments || []).map((att) => ({
+        filename: att.filename,
+        content: att.content,
+        contentType: att.contentType,
+      })),
+    });
+  },
+};
+
+const TRANSPORTS: Record<string, MailTransport> = {
+  graph: graphTransport,
+  smtp: smtpTransport,
+  mailbox: mailboxTransport,
+};
+
+/** The transport named by MAIL_TRANSPORT (default `graph`). */
+export function getMailTransport(): MailTransport {
+  const name = (process.env.MAIL_TRANSPORT || 'graph').toLowerCase();
+  const transport = TRANSPORTS[name];
+  if (!transport) throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  return transport;
+}
+
+export async function sendMail(message: SendMailOptions): Promise<void> {
+  await getMailTransport().send(message);
 }
@@ -0,0 +1,74 @@
+import type { CheckOption, OwnerOption, WellOption } from './types';
+import { getChecks, getOwnerChecks, getOwners, getWell, getWells } from './snowflake';
+import { csvLookupProvider } from './csv-lookups';
+
+/**
+ * Reference data behind the owner, well and check dropdowns and the 360
+ * pages. Routes go through `getLookupProvider()` rather than Snowflake
+ * directly, so LOOKUP_PROVIDER=csv can swap in the offline CSV data
+ * (lib/csv-lookups.ts) for local development without Snowflake access.
+ */
+
+export interface WellDetails extends WellOption {
+  /** Every attribute the source has for the well */
+  attributes: Record<string, unknown>;
+}
+
+export interface LookupProvider {
+  name: string;
+  /** Owners whose number or name contains `search` (all owners if blank), up to 50 */
+  searchOwners(search: string): Promise<OwnerOption[]>;
+  /** Wells whose code or name contains `search`, up to 50 */
+  searchWells(search: string): Promise<WellOption[]>;
+  /** Unreconciled checks whose number contains `search`, up to 50 */
+  searchChecks(search: string): Promise<CheckOption[]>;
+  /** An owner's unreconciled checks, newest first */
+  ownerChecks(ownerNumber: string): Promise<CheckOption[]>;
+  /** One well by code, or null if the source doesn't have it */
+  getWell(wellCode: string): Promise<WellDetails | null>;
+}
+
+const toCheckOption = (c: any): CheckOption => ({
+  check_number: c.CHECK_NUMBER,
+  owner_number: c.ENTITY_CODE,
+  owner_name: c.ENTITY_NAME,
+  check_amount: c.CHECK_AMOUNT,
+  check_date: c.CHECK_DATE,
+});
+
+const snowflakeLookupProvider: LookupProvider = {
+  name: 'snowflake',
+  searchOwners: async (search) =>
+    (await getOwners(search)).map((r) => ({ owner_number: r.OWNER_CODE, owner_name: r.OWNER_NAME })),
+  searchWells: async (search) =>
+    (await getWells(search)).map((r) => ({
+      well_code: r.COST_CENTER_NUMBER,
+      well_name: r.WELL_NAME,
+      search_key: r.SEARCH_KEY,
+    })),
+  searchChecks: async (search) => (await getChecks(search)).map(toCheckOption),
+  ownerChecks: async (ownerNumber) => (await getOwnerChecks(ownerNumber)).map(toCheckOption),
+  getWell: async (wellCode) => {
+    const row = await getWell(wellCode);
+    if (!row) return null;
+    return {
+      well_code: String(row.COST_CENTER_NUMBER ?? wellCode),
+      well_name: String(row.WELL_NAME ?? ''),
+      search_key: String(row.SEARCH_KEY ?? ''),
+      attributes: row,
+    };
+  },
+};
+
+const PROVIDERS: Record<string, LookupProvider> = {
+  snowflake: snowflakeLookupProvider,
+  csv: csvLookupProvider,
+};
+
+/** The provider named by LOOKUP_PROVIDER (default `snowflake`). */
+export function getLookupProvider(): LookupProvider {
+  const name = (process.env.LOOKUP_PROVIDER || 'snowflake').toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown LOOKUP_PROVIDER: ${name}`);
+  return provider;
+}
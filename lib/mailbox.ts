@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { MailTransport } from './email';
+
+/**
+ * Local capture transport (MAIL_TRANSPORT=mailbox): every message is
+ * written to MAILBOX_DIR (default .mailbox) instead of being sent, one
+ * directory per message holding message.json and its attachments, so
+ * confirmation, completion and cron emails can be checked without
+ * emailing anyone. Admins browse it at /api/admin/mailbox.
+ */
+
+export interface MailboxAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  /** Name of the attachment's file in the message directory */
+  file: string;
+}
+
+export interface MailboxMessage {
+  id: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string | null;
+  attachments: MailboxAttachment[];
+  captured_at: string;
+}
+
+export type MailboxSummary = Omit<MailboxMessage, 'html' | 'text'>;
+
+const MESSAGE_FILE = 'message.json';
+
+function mailboxDir() {
+  return path.resolve(process.env.MAILBOX_DIR || '.mailbox');
+}
+
+/** Directory for a message id, or null if the id isn't one we'd have written. */
+function messageDir(id: string) {
+  return /^[\w-]+$/.test(id) ? path.join(mailboxDir(), id) : null;
+}
+
+export const mailboxTransport: MailTransport = {
+  name: 'mailbox',
+  async send({ to, subject, html, text, attachments }) {
+    const capturedAt = new Date();
+    // Timestamp first so ids sort oldest to newest
+    const id = `${capturedAt.getTime()}-${randomUUID().slice(0, 8)}`;
+    const dir = messageDir(id)!;
+    await fs.mkdir(dir, { recursive: true });
+
+    const saved: MailboxAttachment[] = [];
+    for (const [i, att] of (attachments || []).entries()) {
+      const file = `${i + 1}-${att.filename.replace(/[^\w.-]+/g, '_')}`;
+      await fs.writeFile(path.join(dir, file), att.content);
+      saved.push({
+        filename: att.filename,
+        contentType: att.contentType || 'application/octet-stream',
+        size: att.content.length,
+        file,
+      });
+    }
+
+    const message: MailboxMessage = {
+      id,
+      to: to.split(',').map((addr) => addr.trim()).filter(Boolean),
+      subject,
+      html,
+      text: text ?? null,
+      attachments: saved,
+      captured_at: capturedAt.toISOString(),
+    };
+    await fs.writeFile(path.join(dir, MESSAGE_FILE), JSON.stringify(message, null, 2));
+  },
+};
+
+/** A captured message, or null if there's no such message. */
+export async function getMailboxMessage(id: string): Promise<MailboxMessage | null> {
+  const dir = messageDir(id);
+  if (!dir) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, MESSAGE_FILE), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/** Captured messages, newest first, without their bodies. */
+export async function listMailbox(): Promise<MailboxSummary[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(mailboxDir());
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const messages = await Promise.all(ids.sort().reverse().map(getMailboxMessage));
+  return messages
+    .filter((m): m is MailboxMessage => m !== null)
+    .map(({ html: _html, text: _text, ...summary }) => summary);
+}
+
+/** A captured attachment's metadata and contents, or null if the message doesn't have it. */
+export async function readMailboxAttachment(
+  id: string,
+  file: string
+): Promise<{ attachment: MailboxAttachment; content: Buffer } | null> {
+  const message = await getMailboxMessage(id);
+  const attachment = message?.attachments.find((a) => a.file === file);
+  if (!attachment) return null;
+  return { attachment, content: await fs.readFile(path.join(messageDir(id)!, attachment.file)) };
+}
+
+/** Delete every captured message; returns how many there were. */
+export async function clearMailbox(): Promise<number> {
+  const messages = await listMailbox();
+  await fs.rm(mailboxDir(), { recursive: true, force: true });
+  return messages.length;
+}
@@ -0,0 +1,70 @@
+import type { TrackerMetrics } from './types';
+import type { TrackerDefinition } from './trackers';
+import { getWorkflow } from './workflow';
+
+/**
+ * Dashboard queue metrics. The tracker_metrics database function
+ * (supabase/migration.sql) aggregates each tracker's status counts,
+ * Pending aging, turnaround, weekly throughput and per-processor
+ * sign-offs; `trackerMetrics` lays those totals out for the page,
+ * filling in zeros for statuses, buckets and weeks with no requests.
+ */
+
+/** Totals returned by tracker_metrics, keyed by status, bucket label, week (YYYY-MM-DD) or processor */
+export interface MetricsTotals {
+  statuses: Record<string, number>;
+  pending_aging: Record<string, number>;
+  avg_days_to_sign_off: number | null;
+  submitted: Record<string, number>;
+  completed: Record<string, number>;
+  processors: Record<string, number>;
+}
+
+/** Weeks of throughput shown on the dashboard, including the current one */
+export const DASHBOARD_WEEKS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Pending aging buckets (days since request_date), as labelled by tracker_metrics */
+const AGING_BUCKETS = ['0-7 days', '8-30 days', '31-60 days', '60+ days'];
+
+/** Monday 00:00 UTC of the week containing `time`. */
+function weekStart(time: number) {
+  const day = new Date(time);
+  day.setUTCHours(0, 0, 0, 0);
+  return day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/** Start of the oldest week in the dashboard's throughput window. */
+export function metricsSince(now = Date.now()) {
+  return new Date(weekStart(now) - (DASHBOARD_WEEKS - 1) * 7 * DAY_MS);
+}
+
+export function trackerMetrics(
+  tracker: TrackerDefinition,
+  totals: MetricsTotals,
+  now = Date.now()
+): TrackerMetrics {
+  const workflow = getWorkflow(tracker.table);
+  const since = metricsSince(now).getTime();
+  const weeks = Array.from({ length: DASHBOARD_WEEKS }, (_, i) =>
+    new Date(since + i * 7 * DAY_MS).toISOString().slice(0, 10)
+  );
+
+  return {
+    table: tracker.table,
+    app: tracker.app,
+    title: tracker.title,
+    statuses: workflow.statuses.map((status) => ({ status, count: totals.statuses[status] || 0 })),
+    pending_aging: AGING_BUCKETS.map((label) => ({ label, count: totals.pending_aging[label] || 0 })),
+    avg_days_to_sign_off: totals.avg_days_to_sign_off === null ? null : Number(totals.avg_days_to_sign_off),
+    weekly: weeks.map((week) => ({
+      week,
+      submitted: totals.submitted[week] || 0,
+      completed: totals.completed[week] || 0,
+    })),
+    processors: Object.entries(totals.processors)
+      .map(([processor, completed]) => ({ processor, completed }))
+      .sort((a, b) => b.completed - a.completed || a.processor.localeCompare(b.processor)),
+  };
+}
@@ -0,0 +1,16 @@
+import type { DefaultSession } from 'next-auth';
+import type { UserRole } from './types';
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      roles: UserRole[];
+    };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    roles?: UserRole[];
+  }
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { renderEmail, type EmailContent } from './email-templates';
+import { enqueueEmails, type QueuedEmail } from './outbox';
+import { formatInvalidation } from './workflow';
+import { getTracker, ownerDisplay, wellDisplay } from './trackers';
+
+/**
+ * Request notification emails (submission, completion, assignment,
+ * invalidation and comments), rendered from the `<table>.<event>`
+ * templates in lib/email-templates.ts and queued in the email outbox
+ * (lib/outbox.ts) rather than sent inside the request. The `*Email`
+ * builders return the message without queueing it, so bulk updates can
+ * queue all of theirs in one insert.
+ */
+
+export function describeRecord(table: string, record: any): string {
+  return getTracker(table).describe(record);
+}
+
+export function detailLink(table: string, id: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://do-request-forms.vercel.app';
+  return `${appUrl}?app=${getTracker(table).app}&id=${id}`;
+}
+
+/** Template placeholders for a tracker row: its columns plus display labels. */
+export function recordVariables(table: string, record: any): Record<string, unknown> {
+  return {
+    ...record,
+    label: describeRecord(table, record),
+    owner: record.owner_number ? ownerDisplay(record) : undefined,
+    well: record.well_code ? wellDisplay(record) : undefined,
+    status: record.completion_status,
+  };
+}
+
+/** Render a tracker template for a row, with the View Entry button. */
+async function recordEmail(
+  supabase: SupabaseClient,
+  table: string,
+  event: string,
+  record: any,
+  to: string,
+  vars: Record<string, unknown> = {},
+  content: EmailContent = {},
+  attachments?: string[]
+): Promise<QueuedEmail> {
+  const name = `${table}.${event}`;
+  const email = await renderEmail(supabase, name, { ...recordVariables(table, record), ...vars }, {
+    ...content,
+    button: { label: 'View Entry', href: detailLink(table, record.id) },
+  });
+  return { kind: name, to, ...email, attachments };
+}
+
+/**
+ * The email telling the assignee a request was assigned or reassigned to
+ * them, or null for unchanged assignments and self-assignment.
+ */
+export async function assignmentEmail(
+  table: string,
+  before: any,
+  record: any,
+  assignedBy: string,
+  supabase: SupabaseClient
+): Promise<QueuedEmail | null> {
+  if (!record.assigned_to || record.assigned_to === before?.assigned_to) return null;
+  if (record.assigned_to.toLowerCase() === assignedBy.toLowerCase()) return null;
+
+  return recordEmail(supabase, table, 'assigned', record, record.assigned_to, {
+    actor: assignedBy,
+    action: before?.assigned_to ? 'reassigned' : 'assigned',
+  });
+}
+
+/** The email telling the submitter their request was invalidated, and why. */
+export async function invalidationEmail(
+  table: string,
+  record: any,
+  invalidatedBy: string,
+  supabase: SupabaseClient
+): Promise<QueuedEmail | null> {
+  if (!record.created_by) return null;
+
+  const reason = formatInvalidation(record.invalidation_reason, record.invalidation_note);
+  return recordEmail(
+    supabase,
+    table,
+    'invalidated',
+    record,
+    record.created_by,
+    { actor: invalidatedBy, reason },
+    { quote: { label: 'Reason', text: reason } }
+  );
+}
+
+/**
+ * Submission confirmation or completion email for a tracker row, to the
+ * submitter plus the tracker's extra recipients, with the row's
+ * attachments (fetched by the outbox worker when it sends).
+ */
+export async function trackerEmail(
+  table: string,
+  kind: 'submitted' | 'completed',
+  record: any,
+  supabase: SupabaseClient
+): Promise<QueuedEmail | null> {
+  const tracker = getTracker(table);
+  const recipients = [...new Set([record.created_by, ...(tracker.recipients?.(record) || [])].filter(Boolean))];
+  if (recipients.length === 0) return null;
+
+  return recordEmail(
+    supabase,
+    table,
+    kind,
+    record,
+    recipients.join(','),
+    {},
+    { fields: tracker.summary(record).map(([label, value]) => [label, String(value ?? '')]) },
+    record.attachments || []
+  );
+}
+
+/** Queue one built email. Failures are logged, never thrown. */
+async function queueEmail(
+  supabase: SupabaseClient,
+  description: string,
+  build: () => Promise<QueuedEmail | null>
+): Promise<void> {
+  try {
+    const email = await build();
+    if (email) await enqueueEmails(supabase, [email]);
+  } catch (emailError: any) {
+    console.error(`Failed to queue ${description}:`, emailError);
+  }
+}
+
+/**
+ * Email the assignee when a request is assigned or reassigned. Failures
+ * are logged, never thrown, so an outbox failure can't fail the
+ * assignment itself.
+ */
+export async function notifyAssignee(
+  table: string,
+  before: any,
+  record: any,
+  assignedBy: string,
+  supabase: SupabaseClient
+): Promise<void> {
+  await queueEmail(supabase, 'assignment notification', () =>
+    assignmentEmail(table, before, record, assignedBy, supabase)
+  );
+}
+
+/** Tell the submitter their request was invalidated. Failures are logged, never thrown. */
+export async function notifyInvalidated(
+  table: string,
+  record: any,
+  invalidatedBy: string,
+  supabase: SupabaseClient
+): Promise<void> {
+  await queueEmail(supabase, 'invalidation notification', () =>
+    invalidationEmail(table, record, invalidatedBy, supabase)
+  );
+}
+
+/**
+ * Email a new comment to the submitter and everyone who has commented,
+ * except its author. Failures are logged, never thrown.
+ */
+export async function notifyCommented(
+  table: string,
+  record: any,
+  author: string,
+  comment: string,
+  priorAuthors: string[],
+  supabase: SupabaseClient
+): Promise<void> {
+  const recipients = [
+    ...new Set([record.created_by, ...priorAuthors].filter(Boolean).map((e: string) => e.toLowerCase())),
+  ].filter((e) => e !== author.toLowerCase());
+  if (recipients.length === 0) return;
+
+  await queueEmail(supabase, 'comment notification', () =>
+    recordEmail(
+      supabase,
+      table,
+      'commented',
+      record,
+      recipients.join(','),
+      { actor: author, comment },
+      { quote: { text: comment } }
+    )
+  );
+}
+
+/** Queue a submission or completion email (see trackerEmail). Failures are logged, never thrown. */
+export async function sendTrackerEmail(
+  table: string,
+  kind: 'submitted' | 'completed',
+  record: any,
+  supabase: SupabaseClient
+): Promise<void> {
+  await queueEmail(supabase, `${kind} email`, () => trackerEmail(table, kind, record, supabase));
+}
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendMail, type EmailAttachment } from './email';
+import type { OutboxEmail, OutboxStatus } from './types';
+
+/**
+ * Durable outbound email. Routes queue notifications in email_outbox
+ * instead of sending them inline; the email-outbox cron delivers them,
+ * retrying failures with exponential backoff and dead-lettering a
+ * message after EMAIL_MAX_ATTEMPTS tries. Admins can see and resend
+ * dead messages from the Email Outbox page.
+ */
+
+export const OUTBOX_TABLE = 'email_outbox';
+
+const BUCKET = 'attachments';
+
+/** Columns listed in the admin view; the bodies are only read when sending */
+export const OUTBOX_COLUMNS =
+  'id, kind, to_address, subject, attachments, status, attempts, next_attempt_at, last_error, created_at, sent_at';
+
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '6', 10);
+const BASE_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+// A claimed message is skipped by other workers until this passes, so a
+// worker dying mid-send leaves it to be retried rather than stuck
+const CLAIM_MS = 10 * 60 * 1000;
+
+export interface QueuedEmail {
+  /** What triggered the email, e.g. `completed` or `comment` */
+  kind: string;
+  /** Comma-separated recipients */
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  /** Paths in the attachments bucket, downloaded when the email is sent */
+  attachments?: string[];
+}
+
+/** Wait before the next try after `attempts` failures: 1, 2, 4, 8 ... minutes, capped at 6 hours. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+/**
+ * Queue emails for the outbox worker, in a single insert. Returns false
+ * if they couldn't be queued. Failures are logged rather than thrown — the
+ * request they notify about has already been saved.
+ */
+export async function enqueueEmails(supabase: SupabaseClient, emails: QueuedEmail[]): Promise<boolean> {
+  const rows = emails
+    .filter((e) => e.to.trim())
+    .map((e) => ({
+      kind: e.kind,
+      to_address: e.to,
+      subject: e.subject,
+      html: e.html,
+      text: e.text ?? null,
+      attachments: e.attachments || [],
+    }));
+  if (rows.length === 0) return true;
+
+  const { error } = await supabase.from(OUTBOX_TABLE).insert(rows);
+  if (error) console.error('Failed to queue emails:', error);
+  return !error;
+}
+
+/**
+ * Store a generated file, e.g. a report spreadsheet, in the attachments
+ * bucket and return its path for `QueuedEmail.attachments`.
+ */
+export async function storeAttachment(
+  supabase: SupabaseClient,
+  folder: string,
+  filename: string,
+  content: Buffer,
+  contentType: string
+): Promise<string> {
+  const path = `${folder}/${Date.now()}-${filename}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, content, { contentType, upsert: false });
+  if (error) throw error;
+  return path;
+}
+
+/** Download the stored files for an email, skipping any that fail. */
+async function downloadAttachments(supabase: SupabaseClient, paths: string[]): Promise<EmailAttachment[]> {
+  const attachments: EmailAttachment[] = [];
+  for (const path of paths) {
+    try {
+      const { data: fileData, error: dlError } = await supabase.storage.from(BUCKET).download(path);
+      if (dlError || !fileData) continue;
+      const rawName = path.split('/').pop() || path;
+      attachments.push({
+        filename: rawName.replace(/^\d+-/, ''),
+        content: Buffer.from(await fileData.arrayBuffer()),
+      });
+    } catch {
+      // skip files that fail to download
+    }
+  }
+  return attachments;
+}
+
+/**
+ * Claim a due message and try to send it. On failure it's rescheduled
+ * with backoff, or marked dead once it has used up its attempts.
+ * Returns null if another worker claimed it first.
+ */
+async function deliver(supabase: SupabaseClient, row: OutboxEmail): Promise<OutboxStatus | null> {
+  const attempts = row.attempts + 1;
+  const { data: claimed, error: claimError } = await supabase
+    .from(OUTBOX_TABLE)
+    .update({ attempts, next_attempt_at: new Date(Date.now() + CLAIM_MS).toISOString() })
+    .eq('id', row.id)
+    .eq('status', 'pending')
+    .eq('attempts', row.attempts)
+    .select('html, text')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) return null;
+
+  let update: Partial<OutboxEmail>;
+  try {
+    await sendMail({
+      to: row.to_address,
+      subject: row.subject,
+      html: claimed.html,
+      text: claimed.text ?? undefined,
+      attachments: row.attachments.length > 0 ? await downloadAttachments(supabase, row.attachments) : undefined,
+    });
+    update = { status: 'sent', sent_at: new Date().toISOString(), last_error: null };
+  } catch (sendError: any) {
+    console.error(`Failed to send email ${row.id} (attempt ${attempts}):`, sendError);
+    update = {
+      status: attempts >= MAX_ATTEMPTS ? 'dead' : 'pending',
+      next_attempt_at: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+      last_error: sendError?.message || String(sendError),
+    };
+  }
+
+  // Logged rather than thrown: the mail may already be out, and throwing
+  // would only leave the claim to expire and the message to be sent again
+  const { error } = await supabase.from(OUTBOX_TABLE).update(update).eq('id', row.id);
+  if (error) console.error(`Failed to record ${update.status} status for email ${row.id}:`, error);
+  return update.status!;
+}
+
+/** Send every due message, oldest first, up to `limit`. */
+export async function processOutbox(
+  supabase: SupabaseClient,
+  limit = 50
+): Promise<Record<OutboxStatus, number>> {
+  const { data, error } = await supabase
+    .from(OUTBOX_TABLE)
+    .select(OUTBOX_COLUMNS)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(limit);
+
+  if (error) throw error;
+
+  const results: Record<OutboxStatus, number> = { sent: 0, pending: 0, dead: 0 };
+  for (const row of (data || []) as OutboxEmail[]) {
+    const status = await deliver(supabase, row);
+    if (status) results[status]++;
+  }
+  return results;
+}
+
+/**
+ * Requeue a dead (or due) message with a fresh set of attempts and send
+ * it now. A pending message whose next_attempt_at is still ahead may be
+ * claimed by a worker mid-send, so it's left alone. Returns the updated
+ * row, or null if there's no such message with that id.
+ */
+export async function resendEmail(supabase: SupabaseClient, id: string): Promise<OutboxEmail | null> {
+  const now = new Date().toISOString();
+  const { data: row, error } = await supabase
+    .from(OUTBOX_TABLE)
+    .update({ status: 'pending', attempts: 0, next_attempt_at: now })
+    .eq('id', id)
+    .or(`status.eq.dead,and(status.eq.pending,next_attempt_at.lte.${now})`)
+    .select(OUTBOX_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!row) return null;
+
+  await deliver(supabase, row as OutboxEmail);
+
+  const { data: updated, error: fetchError } = await supabase
+    .from(OUTBOX_TABLE)
+    .select(OUTBOX_COLUMNS)
+    .eq('id', id)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return updated as OutboxEmail;
+}
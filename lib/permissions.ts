@@ -0,0 +1,49 @@
+import type { SessionUser, UserRole } from './types';
+
+/**
+ * Role checks shared by the API routes and the submissions views.
+ * Roles are cumulative: an Admin can do everything a Processor can,
+ * and a Processor everything a Submitter can.
+ */
+
+const ROLE_RANK: Record<UserRole, number> = {
+  Submitter: 0,
+  Processor: 1,
+  Admin: 2,
+};
+
+interface OwnedRecord {
+  created_by: string;
+  completion_status: string;
+}
+
+export function hasRole(user: SessionUser, role: UserRole): boolean {
+  return user.roles.some((r) => ROLE_RANK[r] >= ROLE_RANK[role]);
+}
+
+function isOwnPending(user: SessionUser, record: OwnedRecord): boolean {
+  return (
+    record.created_by.toLowerCase() === user.email.toLowerCase() &&
+    record.completion_status === 'Pending'
+  );
+}
+
+/** Processors can edit any entry; Submitters only their own Pending entries. */
+export function canEditRecord(user: SessionUser, record: OwnedRecord): boolean {
+  return hasRole(user, 'Processor') || isOwnPending(user, record);
+}
+
+/** Admins can delete any entry; everyone else can only withdraw their own Pending entries. */
+export function canDeleteRecord(user: SessionUser, record: OwnedRecord): boolean {
+  return hasRole(user, 'Admin') || isOwnPending(user, record);
+}
+
+/** Status changes (single, bulk and spreadsheet upload) are reserved for Processors. */
+export function canChangeStatus(user: SessionUser): boolean {
+  return hasRole(user, 'Processor');
+}
+
+/** Assigning requests to a processor is likewise a Processor action. */
+export function canAssign(user: SessionUser): boolean {
+  return hasRole(user, 'Processor');
+}
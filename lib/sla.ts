@@ -0,0 +1,48 @@
+import type { CompletionStatus } from './types';
+import type { TrackerDefinition } from './trackers';
+import { getWorkflow } from './workflow';
+
+/**
+ * SLA targets. Each tracker's `slaBusinessDays` (lib/trackers.ts) counts
+ * weekdays from request_date; an open request past that is overdue. The
+ * submissions tables flag overdue rows and the daily
+ * /api/cron/sla-escalation job emails the assignee, then the managers.
+ */
+
+/** Who an overdue request has been escalated to; each level is emailed once per request and recipient. */
+export type EscalationLevel = 'assignee' | 'manager';
+
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+export function addBusinessDays(from: Date, days: number): Date {
+  const date = new Date(from);
+  for (let added = 0; added < days; ) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (!isWeekend(date)) added++;
+  }
+  return date;
+}
+
+/** Whole business days from `from` to `to`; 0 if `to` isn't later. */
+export function businessDaysBetween(from: Date, to: Date): number {
+  const date = new Date(from);
+  let days = 0;
+  for (;;) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (date > to) return days;
+    if (!isWeekend(date)) days++;
+  }
+}
+
+export function slaDueDate(tracker: TrackerDefinition, record: { request_date: string }): Date {
+  return addBusinessDays(new Date(record.request_date), tracker.slaBusinessDays);
+}
+
+export function isOverdue(
+  tracker: TrackerDefinition,
+  record: { request_date: string; completion_status: CompletionStatus },
+  now = new Date()
+): boolean {
+  if (getWorkflow(tracker.table).closed.includes(record.completion_status)) return false;
+  return now > slaDueDate(tracker, record);
+}
@@ -1,4 +1,5 @@
 import snowflake from 'snowflake-sdk';
+import { cacheStats, createTtlCache } from './cache';
 
 // Configure Snowflake to use fewer resources
 snowflake.configure({ logLevel: 'ERROR' });
@@ -22,19 +23,41 @@ export interface SnowflakeWell {
   SEARCH_KEY: string;
 }
 
+const MINUTE_MS = 60 * 1000;
+
 /**
- * Execute a query against Snowflake and return results.
- * Connections are created per-request and destroyed after use.
+ * Lookup caches. Owners and wells rarely change, so searches are kept for
+ * SNOWFLAKE_LOOKUP_TTL_MINUTES (default 60); the check register changes as
+ * checks reconcile, so it gets SNOWFLAKE_CHECK_TTL_SECONDS (default 60).
  */
-export async function querySnowflake<T = any>(
-  sqlText: string,
-  binds: any[] = []
-): Promise<T[]> {
-  return new Promise((resolve, reject) => {
-    // Restore newlines in PEM key (Vercel env vars strip them)
-    const privateKey = (process.env.SNOWFLAKE_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+const lookupTtlMs = Number(process.env.SNOWFLAKE_LOOKUP_TTL_MINUTES || 60) * MINUTE_MS;
+const ownerCache = createTtlCache<SnowflakeOwner[]>('owners', { ttlMs: lookupTtlMs });
+const wellCache = createTtlCache<SnowflakeWell[]>('wells', { ttlMs: lookupTtlMs });
+const wellAttributesCache = createTtlCache<Record<string, unknown> | null>('well-attributes', { ttlMs: lookupTtlMs });
+const checkCache = createTtlCache<SnowflakeCheck[]>('checks', {
+  ttlMs: Number(process.env.SNOWFLAKE_CHECK_TTL_SECONDS || 60) * 1000,
+});
+
+// ILIKE searches ignore case, so neither does the cache
+const cacheKey = (search?: string) => (search || '').toLowerCase();
+
+let pool: ReturnType<typeof snowflake.createPool> | null = null;
+const queryStats = { queries: 0, errors: 0, totalMs: 0 };
+
+/**
+ * Connection pool shared by every query on this server instance. A
+ * connection is health-checked before each use (and replaced if it has
+ * dropped) and closed after 10 idle minutes, so keystroke-driven lookups
+ * reuse a warm, already-authenticated session instead of a new JWT login.
+ */
+function getPool() {
+  if (pool) return pool;
 
-    const connection = snowflake.createConnection({
+  // Restore newlines in PEM key (Vercel env vars strip them)
+  const privateKey = (process.env.SNOWFLAKE_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+
+  pool = snowflake.createPool(
+    {
       account: process.env.SNOWFLAKE_ACCOUNT!,
       username: process.env.SNOWFLAKE_USERNAME!,
       authenticator: 'SNOWFLAKE_JWT',
@@ -43,32 +66,70 @@ export async function querySnowflake<T = any>(
       schema: process.env.SNOWFLAKE_SCHEMA!,
       warehouse: process.env.SNOWFLAKE_WAREHOUSE!,
       role: process.env.SNOWFLAKE_ROLE!,
-    });
-
-    connection.connect((err) => {
-      if (err) {
-        console.error('Snowflake connection error:', err);
-        return reject(err);
-      }
-
-      connection.execute({
-        sqlText,
-        binds,
-        complete: (err, stmt, rows) => {
-          connection.destroy((destroyErr) => {
-            if (destroyErr) console.error('Error destroying connection:', destroyErr);
-          });
+      clientSessionKeepAlive: true,
+    },
+    {
+      min: 0,
+      max: Number(process.env.SNOWFLAKE_POOL_MAX || 4),
+      testOnBorrow: true,
+      acquireTimeoutMillis: 30 * 1000,
+      idleTimeoutMillis: 10 * MINUTE_MS,
+      evictionRunIntervalMillis: MINUTE_MS,
+    }
+  );
+  return pool;
+}
 
-          if (err) {
-            console.error('Snowflake query error:', err);
-            return reject(err);
-          }
+/**
+ * Execute a query against Snowflake and return results, on a pooled
+ * connection.
+ */
+export async function querySnowflake<T = any>(
+  sqlText: string,
+  binds: any[] = []
+): Promise<T[]> {
+  const started = Date.now();
+  queryStats.queries++;
+
+  try {
+    return await getPool().use(
+      (connection) =>
+        new Promise<T[]>((resolve, reject) => {
+          connection.execute({
+            sqlText,
+            binds,
+            complete: (err, stmt, rows) => {
+              if (err) {
+                console.error('Snowflake query error:', err);
+                return reject(err);
+              }
+
+              resolve((rows || []) as T[]);
+            },
+          });
+        })
+    );
+  } catch (err) {
+    queryStats.errors++;
+    throw err;
+  } finally {
+    queryStats.totalMs += Date.now() - started;
+  }
+}
 
-          resolve((rows || []) as T[]);
-        },
-      });
-    });
-  });
+/** Pool, query and cache counters for the admin metrics route. */
+export function getSnowflakeMetrics() {
+  return {
+    pool: pool
+      ? { size: pool.size, available: pool.available, borrowed: pool.borrowed, pending: pool.pending, max: pool.max }
+      : null,
+    queries: {
+      count: queryStats.queries,
+      errors: queryStats.errors,
+      avgMs: queryStats.queries ? Math.round(queryStats.totalMs / queryStats.queries) : null,
+    },
+    caches: cacheStats(),
+  };
 }
 
 /**
@@ -84,7 +145,7 @@ export async function getOwners(search?: string): Promise<SnowflakeOwner[]> {
   }
 
   sql += ` ORDER BY OWNER_CODE LIMIT 50`;
-  return querySnowflake<SnowflakeOwner>(sql, binds);
+  return ownerCache.getOrLoad(cacheKey(search), () => querySnowflake<SnowflakeOwner>(sql, binds));
 }
 
 /**
@@ -100,7 +161,7 @@ export async function getWells(search?: string): Promise<SnowflakeWell[]> {
   }
 
   sql += ` ORDER BY COST_CENTER_NUMBER LIMIT 50`;
-  return querySnowflake<SnowflakeWell>(sql, binds);
+  return wellCache.getOrLoad(cacheKey(search), () => querySnowflake<SnowflakeWell>(sql, binds));
 }
 
 /**
@@ -117,5 +178,26 @@ export async function getChecks(search?: string): Promise<SnowflakeCheck[]> {
   }
 
   sql += ` ORDER BY CHECK_NUMBER LIMIT 50`;
-  return querySnowflake<SnowflakeCheck>(sql, binds);
+  return checkCache.getOrLoad(cacheKey(search), () => querySnowflake<SnowflakeCheck>(sql, binds));
+}
+
+/**
+ * Fetch an owner's outstanding (unreconciled) checks from
+ * GOLD_DIM_REVENUE_CHECK_REGISTER, newest first.
+ */
+export async function getOwnerChecks(ownerCode: string): Promise<SnowflakeCheck[]> {
+  const sql = `SELECT DISTINCT CHECK_NUMBER, ENTITY_CODE, ENTITY_NAME, CHECK_AMOUNT, CHECK_DATE FROM FO_PRODUCTION_DB.GOLD_FINANCIAL.GOLD_DIM_REVENUE_CHECK_REGISTER WHERE CHECK_TYPE = 'CHECK' AND COMPANY_CODE = '200' AND RECONCILED != 'YES' AND ENTITY_CODE = ? ORDER BY CHECK_DATE DESC, CHECK_NUMBER LIMIT 500`;
+  return checkCache.getOrLoad(`owner:${ownerCode}`, () => querySnowflake<SnowflakeCheck>(sql, [ownerCode]));
+}
+
+/**
+ * Fetch every DIM_WELL attribute for one cost center, or null if the well
+ * isn't in the hierarchy.
+ */
+export async function getWell(costCenter: string): Promise<Record<string, unknown> | null> {
+  const sql = `SELECT * FROM FO_PRODUCTION_DB.GOLD_ASSET_HIERARCHY.DIM_WELL WHERE COST_CENTER_NUMBER = ? LIMIT 1`;
+  return wellAttributesCache.getOrLoad(costCenter, async () => {
+    const rows = await querySnowflake<Record<string, unknown>>(sql, [costCenter]);
+    return rows[0] || null;
+  });
 }
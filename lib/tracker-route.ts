@@ -0,0 +1,628 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServerSupabaseClient } from './supabase';
+import { requireUser } from './auth';
+import { recordEvents, diffRecords } from './audit';
+import { canAssign, canChangeStatus, canDeleteRecord, canEditRecord } from './permissions';
+import {
+  assignmentEmail,
+  invalidationEmail,
+  notifyAssignee,
+  notifyInvalidated,
+  sendTrackerEmail,
+  trackerEmail,
+} from './notifications';
+import { enqueueEmails, type QueuedEmail } from './outbox';
+import { formatInvalidation, getWorkflow, validateInvalidation, validateTransition } from './workflow';
+import { validatePayload } from './validation';
+import type { TrackerDefinition } from './trackers';
+import type { SessionUser } from './types';
+
+/**
+ * Route factory shared by every tracker. Given a definition from
+ * lib/trackers.ts it returns the GET/POST/PATCH/DELETE handlers:
+ *
+ *   GET    — one page of rows matching the list filters, with the total
+ *            (`?trash=true` for the Trash, `?facets=true` for the people
+ *            shown in the Created By and Assign To dropdowns)
+ *   POST   — validate and create, then email the submitter
+ *   PATCH  — bulk status/assignment, restore, or single edit/status change
+ *   DELETE — move a row to the trash
+ *
+ * Status changes go through the tracker's workflow, every mutation is
+ * recorded in request_events, and reaching sign-off sends the
+ * completion email.
+ */
+
+export interface CreateContext {
+  supabase: SupabaseClient;
+  user: SessionUser;
+  body: any;
+  /** Row about to be inserted; hooks may add columns to it */
+  record: Record<string, any>;
+}
+
+export interface CreateHookResult {
+  /** Returned to the client instead of creating the row */
+  response?: NextResponse;
+  /** Recorded on the "created" history event */
+  reason?: string | null;
+}
+
+export interface TrackerRouteOptions {
+  /** Runs after validation and before insert (e.g. duplicate detection) */
+  beforeCreate?: (ctx: CreateContext) => Promise<CreateHookResult | void>;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+/** Columns every list can be sorted by, besides the tracker's own `sortColumns` */
+const COMMON_SORT_COLUMNS = ['request_date', 'completion_status', 'sign_off_date', 'created_by', 'assigned_to'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Escape the ILIKE wildcards so user input matches literally. */
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/** `or()` filter matching the term anywhere in any of the columns. */
+export function ilikeAny(columns: string[], term: string) {
+  // Quoting keeps commas and parentheses in the term out of the or() syntax
+  const pattern = `%${escapeLike(term)}%`.replace(/["\\]/g, (c) => `\\${c}`);
+  return columns.map((column) => `${column}.ilike."${pattern}"`).join(',');
+}
+
+export function createTrackerRoutes(tracker: TrackerDefinition, options: TrackerRouteOptions = {}) {
+  const TABLE_NAME = tracker.table;
+  const WORKFLOW = getWorkflow(TABLE_NAME);
+
+  const SORT_COLUMNS = [...COMMON_SORT_COLUMNS, ...tracker.sortColumns];
+
+  /**
+   * Distinct submitters and people who have worked requests (assignees,
+   * editors), computed in the database by the tracker_people function.
+   */
+  async function listPeople(supabase: SupabaseClient, showTrash: boolean) {
+    const { data, error } = await supabase.rpc('tracker_people', { p_table: TABLE_NAME, p_trash: showTrash });
+    if (error) throw error;
+
+    const people = (data || []) as { role: 'creator' | 'assignee'; email: string }[];
+    const emails = (role: string) => people.filter((p) => p.role === role).map((p) => p.email).sort();
+    return { creators: emails('creator'), assignees: emails('assignee') };
+  }
+
+  // GET - Fetch a page of submissions
+  async function GET(request: NextRequest) {
+    const user = await requireUser();
+    if (user instanceof NextResponse) return user;
+
+    try {
+      const supabase = createServerSupabaseClient();
+      const { searchParams } = new URL(request.url);
+      const showTrash = searchParams.get('trash') === 'true';
+
+      if (searchParams.get('facets') === 'true') {
+        return NextResponse.json(await listPeople(supabase, showTrash));
+      }
+
+      const page = Math.max(1, Number(searchParams.get('page')) || 1);
+      const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(searchParams.get('pageSize')) || DEFAULT_PAGE_SIZE));
+      const sort = searchParams.get('sort') || 'request_date';
+      const ascending = searchParams.get('dir') === 'asc';
+      if (!SORT_COLUMNS.includes(sort)) {
+        return NextResponse.json({ error: `Cannot sort by ${sort}` }, { status: 400 });
+      }
+
+      const dateFrom = searchParams.get('dateFrom');
+      const dateTo = searchParams.get('dateTo');
+      if ((dateFrom && !ISO_DATE.test(dateFrom)) || (dateTo && !ISO_DATE.test(dateTo))) {
+        return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+      }
+
+      const olderThan = searchParams.get('olderThan');
+      const olderThanDays = Number(olderThan);
+      if (olderThan && (!Number.isInteger(olderThanDays) || olderThanDays < 0)) {
+        return NextResponse.json({ error: 'olderThan must be a whole number of days' }, { status: 400 });
+      }
+
+      let query = supabase.from(TABLE_NAME).select('*', { count: 'exact' });
+
+      // Trashed rows are hidden unless the Trash view is requested
+      query = showTrash
+        ? query.not('deleted_at', 'is', null)
+        : query.is('deleted_at', null);
+
+      const id = searchParams.get('id');
+      if (id) query = query.eq('id', id);
+
+      const search = searchParams.get('search')?.trim();
+      if (search) query = query.or(ilikeAny(tracker.searchColumns, search));
+
+      const status = searchParams.get('status');
+      if (status) query = query.eq('completion_status', status);
+
+      const createdBy = searchParams.get('createdBy');
+      if (createdBy) query = query.eq('created_by', createdBy);
+
+      const assignedTo = searchParams.get('assignedTo');
+      if (assignedTo === 'me') query = query.ilike('assigned_to', escapeLike(user.email));
+      if (assignedTo === 'unassigned') query = query.or('assigned_to.is.null,assigned_to.eq.""');
+
+      // Request dates are compared by their UTC calendar day
+      if (dateFrom) query = query.gte('request_date', `${dateFrom}T00:00:00Z`);
+      if (dateTo) {
+        const dayAfter = new Date(Date.parse(`${dateTo}T00:00:00Z`) + DAY_MS);
+        query = query.lt('request_date', dayAfter.toISOString());
+      }
+      if (olderThan) {
+        query = query.lt('request_date', new Date(Date.now() - olderThanDays * DAY_MS).toISOString());
+      }
+
+      for (const column of tracker.filterColumns || []) {
+        const value = searchParams.get(column);
+        if (value) query = query.eq(column, value);
+      }
+
+      // Newest first among equal values; id keeps the order stable across pages
+      query = query.order(sort, { ascending, nullsFirst: false });
+      if (sort !== 'request_date') query = query.order('request_date', { ascending: false });
+      query = query.order('id').range((page - 1) * pageSize, page * pageSize - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+
+      return NextResponse.json({ rows: data, total: count ?? 0, page, pageSize });
+    } catch (error: any) {
+      console.error(`Error fetching ${tracker.noun} submissions:`, error);
+      return NextResponse.json(
+        { error: 'Failed to fetch submissions' },
+        { status: 500 }
+      );
+    }
+  }
+
+  // POST - Create a new submission
+  async function POST(request: NextRequest) {
+    const user = await requireUser();
+    if (user instanceof NextResponse) return user;
+
+    try {
+      const supabase = createServerSupabaseClient();
+      const body = await request.json();
+
+      const { value: fields, errors } = validatePayload(tracker.schema, body);
+      if (errors) {
+        return NextResponse.json(
+          { error: 'Please correct the highlighted fields', fields: errors },
+          { status: 422 }
+        );
+      }
+
+      const submission: Record<string, any> = {
+        ...fields,
+        request_date: new Date().toISOString(),
+        completion_status: WORKFLOW.initial,
+        sign_off_date: null,
+        created_by: user.email,
+      };
+
+      const hook = await options.beforeCreate?.({ supabase, user, body, record: submission });
+      if (hook?.response) return hook.response;
+
+      // Dry run used by the forms to run server-side checks before uploading attachments
+      if (body.validate_only) {
+        return NextResponse.json({ valid: true });
+      }
+
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .insert([submission])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await recordEvents(supabase, [
+        {
+          table_name: TABLE_NAME,
+          record_id: data.id,
+          action: 'created',
+          source: 'form',
+          actor: user.email,
+          changes: diffRecords({}, data),
+          reason: hook?.reason ?? null,
+        },
+      ]);
+
+      await sendTrackerEmail(TABLE_NAME, 'submitted', data, supabase);
+
+      return NextResponse.json(data, { status: 201 });
+    } catch (error: any) {
+      console.error(`Error creating ${tracker.noun} submission:`, error);
+      return NextResponse.json(
+        { error: 'Failed to create submission' },
+        { status: 500 }
+      );
+    }
+  }
+
+  // PATCH - Update a submission (status change, full edit, or bulk status)
+  async function PATCH(request: NextRequest) {
+    const user = await requireUser();
+    if (user instanceof NextResponse) return user;
+
+    try {
+      const supabase = createServerSupabaseClient();
+      const body = await request.json();
+
+      // Bulk status and/or assignment update
+      const isBulkAssign = body.assigned_to !== undefined;
+      if (body.ids && Array.isArray(body.ids) && (body.completion_status || isBulkAssign)) {
+        if (
+          (body.completion_status && !canChangeStatus(user)) ||
+          (isBulkAssign && !canAssign(user))
+        ) {
+          return NextResponse.json(
+            { error: 'Only Processors can change request status or assignment' },
+            { status: 403 }
+          );
+        }
+
+        // Invalidations need a picklist reason, which also serves as the transition reason
+        const isInvalidating = body.completion_status === WORKFLOW.invalidated;
+        if (isInvalidating) {
+          const invalidationError = validateInvalidation(body.invalidation_reason, body.invalidation_note);
+          if (invalidationError) {
+            return NextResponse.json({ error: invalidationError }, { status: 400 });
+          }
+        }
+        const statusReason =
+          body.status_reason ||
+          (isInvalidating ? formatInvalidation(body.invalidation_reason, body.invalidation_note) : null);
+
+        const updatePayload: any = { updated_by: user.email };
+        if (body.completion_status) {
+          updatePayload.completion_status = body.completion_status;
+          updatePayload.sign_off_date =
+            body.completion_status === WORKFLOW.signOff
+              ? new Date().toISOString()
+              : null;
+          updatePayload.invalidation_reason = isInvalidating ? body.invalidation_reason : null;
+          updatePayload.invalidation_note = isInvalidating ? body.invalidation_note?.trim() || null : null;
+        }
+        if (isBulkAssign) {
+          updatePayload.assigned_to = body.assigned_to ? String(body.assigned_to).trim().toLowerCase() : null;
+        }
+
+        const { data: before, error: beforeError } = await supabase
+          .from(TABLE_NAME)
+          .select('*')
+          .in('id', body.ids)
+          .is('deleted_at', null);
+
+        if (beforeError) throw beforeError;
+
+        // Every selected row must be allowed to make the transition
+        if (body.completion_status) {
+          const invalid = (before || [])
+            .map((row: any) => ({
+              id: row.id,
+              error: validateTransition(TABLE_NAME, row.completion_status, body.completion_status, statusReason),
+            }))
+            .filter((row) => row.error);
+
+          if (invalid.length > 0) {
+            return NextResponse.json(
+              { error: invalid[0].error, invalid },
+              { status: 400 }
+            );
+          }
+        }
+
+        const { data, error } = await supabase
+          .from(TABLE_NAME)
+          .update(updatePayload)
+          .in('id', body.ids)
+          .is('deleted_at', null)
+          .select();
+
+        if (error) throw error;
+
+        const beforeById = new Map((before || []).map((r: any) => [r.id, r]));
+        await recordEvents(
+          supabase,
+          (data || []).map((row: any) => ({
+            table_name: TABLE_NAME,
+            record_id: row.id,
+            action: 'updated' as const,
+            source: 'bulk_update' as const,
+            actor: user.email,
+            changes: diffRecords(beforeById.get(row.id) || {}, row),
+            reason: statusReason,
+          }))
+        );
+
+        // Build every row's notifications, then queue them in one insert
+        try {
+          const emails = await Promise.all(
+            (data || []).flatMap((row: any) => {
+              const prev = beforeById.get(row.id);
+              return [
+                assignmentEmail(TABLE_NAME, prev, row, user.email, supabase),
+                isInvalidating && prev?.completion_status !== WORKFLOW.invalidated
+                  ? invalidationEmail(TABLE_NAME, row, user.email, supabase)
+                  : null,
+                // Completion emails for rows that just reached sign-off
+                body.completion_status === WORKFLOW.signOff && prev?.completion_status !== WORKFLOW.signOff
+                  ? trackerEmail(TABLE_NAME, 'completed', row, supabase)
+                  : null,
+              ];
+            })
+          );
+          await enqueueEmails(supabase, emails.filter((e): e is QueuedEmail => e !== null));
+        } catch (emailError: any) {
+          console.error('Failed to queue bulk update emails:', emailError);
+        }
+
+        return NextResponse.json(data);
+      }
+
+      // Single update
+      const { id } = body;
+      if (!id) {
+        return NextResponse.json(
+          { error: 'Missing id' },
+          { status: 400 }
+        );
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError || !existing) {
+        return NextResponse.json(
+          { error: 'Submission not found' },
+          { status: 404 }
+        );
+      }
+
+      // Restore from trash
+      if (body.restore) {
+        if (!canDeleteRecord(user, existing)) {
+          return NextResponse.json(
+            { error: 'You do not have permission to restore this entry' },
+            { status: 403 }
+          );
+        }
+
+        if (!existing.deleted_at) {
+          return NextResponse.json(
+            { error: 'Entry is not in the trash' },
+            { status: 409 }
+          );
+        }
+
+        const { data, error } = await supabase
+          .from(TABLE_NAME)
+          .update({ deleted_at: null, deleted_by: null, updated_by: user.email })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        await recordEvents(supabase, [
+          {
+            table_name: TABLE_NAME,
+            record_id: id,
+            action: 'restored',
+            source: 'ui_edit',
+            actor: user.email,
+            changes: diffRecords(existing, data),
+          },
+        ]);
+
+        return NextResponse.json(data);
+      }
+
+      if (existing.deleted_at) {
+        return NextResponse.json(
+          { error: 'Entry is in the trash; restore it before editing' },
+          { status: 409 }
+        );
+      }
+
+      // Full edit fields — only those present in the body are validated and updated
+      const { value: fields, errors: fieldErrors } = validatePayload(tracker.schema, body, existing);
+      if (fieldErrors) {
+        return NextResponse.json(
+          { error: 'Please correct the highlighted fields', fields: fieldErrors },
+          { status: 422 }
+        );
+      }
+
+      const updatePayload: any = { updated_by: user.email, ...fields };
+
+      // Submitters may only edit their own Pending entries; only Processors change status
+      const isFieldEdit = Object.keys(updatePayload).some((key) => key !== 'updated_by');
+      if (isFieldEdit && !canEditRecord(user, existing)) {
+        return NextResponse.json(
+          { error: 'You can only edit your own Pending entries' },
+          { status: 403 }
+        );
+      }
+      const statusChanged =
+        !!body.completion_status && body.completion_status !== existing.completion_status;
+      if (statusChanged && !canChangeStatus(user)) {
+        return NextResponse.json(
+          { error: 'Only Processors can change request status' },
+          { status: 403 }
+        );
+      }
+      const isInvalidating = statusChanged && body.completion_status === WORKFLOW.invalidated;
+      const statusReason =
+        body.status_reason ||
+        (isInvalidating ? formatInvalidation(body.invalidation_reason, body.invalidation_note) : null);
+      if (isInvalidating) {
+        const invalidationError = validateInvalidation(body.invalidation_reason, body.invalidation_note);
+        if (invalidationError) {
+          return NextResponse.json({ error: invalidationError }, { status: 400 });
+        }
+      }
+      if (statusChanged) {
+        const transitionError = validateTransition(
+          TABLE_NAME,
+          existing.completion_status,
+          body.completion_status,
+          statusReason
+        );
+        if (transitionError) {
+          return NextResponse.json({ error: transitionError }, { status: 400 });
+        }
+      }
+
+      if (body.assigned_to !== undefined) {
+        if (!canAssign(user)) {
+          return NextResponse.json(
+            { error: 'Only Processors can assign requests' },
+            { status: 403 }
+          );
+        }
+        updatePayload.assigned_to = body.assigned_to ? String(body.assigned_to).trim().toLowerCase() : null;
+      }
+
+      // Status change with auto sign-off date
+      if (statusChanged) {
+        updatePayload.completion_status = body.completion_status;
+        updatePayload.sign_off_date =
+          body.completion_status === WORKFLOW.signOff
+            ? new Date().toISOString()
+            : null;
+        updatePayload.invalidation_reason = isInvalidating ? body.invalidation_reason : null;
+        updatePayload.invalidation_note = isInvalidating ? body.invalidation_note?.trim() || null : null;
+      }
+
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update(updatePayload)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await recordEvents(supabase, [
+        {
+          table_name: TABLE_NAME,
+          record_id: id,
+          action: 'updated',
+          source: isFieldEdit ? 'ui_edit' : statusChanged ? 'status_change' : 'assignment',
+          actor: user.email,
+          changes: diffRecords(existing, data),
+          reason: statusChanged ? statusReason : null,
+        },
+      ]);
+
+      await notifyAssignee(TABLE_NAME, existing, data, user.email, supabase);
+      if (isInvalidating) {
+        await notifyInvalidated(TABLE_NAME, data, user.email, supabase);
+      }
+
+      // Completion email when the status reaches sign-off
+      if (statusChanged && data.completion_status === WORKFLOW.signOff) {
+        await sendTrackerEmail(TABLE_NAME, 'completed', data, supabase);
+      }
+
+      return NextResponse.json(data);
+    } catch (error: any) {
+      console.error(`Error updating ${tracker.noun} submission:`, error);
+      return NextResponse.json(
+        { error: 'Failed to update submission' },
+        { status: 500 }
+      );
+    }
+  }
+
+  // DELETE - Move a submission to the trash
+  async function DELETE(request: NextRequest) {
+    const user = await requireUser();
+    if (user instanceof NextResponse) return user;
+
+    try {
+      const supabase = createServerSupabaseClient();
+      const body = await request.json();
+      const { id } = body;
+
+      if (!id) {
+        return NextResponse.json(
+          { error: 'Missing id' },
+          { status: 400 }
+        );
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from(TABLE_NAME)
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError || !existing) {
+        return NextResponse.json(
+          { error: 'Submission not found' },
+          { status: 404 }
+        );
+      }
+
+      if (!canDeleteRecord(user, existing)) {
+        return NextResponse.json(
+          { error: 'You do not have permission to delete this entry' },
+          { status: 403 }
+        );
+      }
+
+      if (existing.deleted_at) {
+        return NextResponse.json(
+          { error: 'Entry is already in the trash' },
+          { status: 409 }
+        );
+      }
+
+      // Soft delete: the row stays in the Trash until the retention job purges it
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .update({ deleted_at: new Date().toISOString(), deleted_by: user.email })
+        .eq('id', id)
+        .is('deleted_at', null)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await recordEvents(supabase, [
+        {
+          table_name: TABLE_NAME,
+          record_id: id,
+          action: 'deleted',
+          source: 'ui_edit',
+          actor: user.email,
+          changes: diffRecords(existing, data),
+        },
+      ]);
+
+      return NextResponse.json({ success: true });
+    } catch (error: any) {
+      console.error(`Error deleting ${tracker.noun} submission:`, error);
+      return NextResponse.json(
+        { error: 'Failed to delete submission' },
+        { status: 500 }
+      );
+    }
+  }
+
+  return { GET, POST, PATCH, DELETE };
+}
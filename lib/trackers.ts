@@ -0,0 +1,398 @@
+import type { FieldConfig, TrackerApp } from './types';
+import type { WorkflowTable } from './workflow';
+import {
+  ACCOUNTING_GROUPS,
+  INTEREST_TRACKER_SCHEMA,
+  REQUEST_SOURCES,
+  VOID_CHECK_SCHEMA,
+  schemaFromFields,
+  type Schema,
+} from './validation';
+
+/**
+ * Tracker registry: everything that differs between the request trackers.
+ * The shared route factory (lib/tracker-route.ts) and the notification
+ * emails read from here, so adding a tracker means adding a definition
+ * and a route file that plugs it into the factory.
+ *
+ * Trackers need no UI code: the page renders each one's New Entry form,
+ * submissions table, detail modal and edit mode from its `form` field
+ * list, which can also supply its schema and email summary.
+ */
+
+/** Default wording of a tracker email; `{{placeholders}}` are filled by lib/email-templates.ts */
+export interface TrackerEmail {
+  subject: string;
+  heading: string;
+  intro: string;
+}
+
+export interface FormDefinition {
+  /** Heading of the New Entry form */
+  title: string;
+  /** Shown after a successful submission */
+  successMessage: string;
+  fields: FieldConfig[];
+  /** Field names shown, in order, as submissions table and export columns */
+  columns: string[];
+  /** Field identifying a row in the detail modal header and confirmations */
+  titleField: string;
+  /** Line listing a possible duplicate the POST route flagged (409); defaults to `describe` */
+  describeDuplicate?: (record: any) => string;
+}
+
+export interface TrackerDefinition {
+  table: WorkflowTable;
+  /** `?app=` value used in deep links and the app switcher */
+  app: TrackerApp;
+  /** Name shown in the app switcher */
+  title: string;
+  icon: string;
+  /** API route serving the table */
+  api: string;
+  /** Lower-case noun used in log messages, e.g. "void check" */
+  noun: string;
+  /** Validates and normalizes the user-editable fields on create and edit */
+  schema: Schema<any>;
+  /** Text columns matched by the submissions search box */
+  searchColumns: string[];
+  /** Own columns the submissions list can be sorted by (request date, status etc. always can) */
+  sortColumns: string[];
+  /** Business days from request_date before an open request is overdue (see lib/sla.ts) */
+  slaBusinessDays: number;
+  /** Columns the list can be filtered on by exact value, passed as `?<column>=` */
+  filterColumns?: string[];
+  /** Short label for a row, used in email subjects and notifications */
+  describe: (record: any) => string;
+  /** Label/value rows shown in the summary table of tracker emails */
+  summary: (record: any) => [string, string][];
+  emails: {
+    submitted: TrackerEmail;
+    completed: TrackerEmail;
+    /** Monthly pending report, for trackers that have a report cron */
+    report?: TrackerEmail;
+  };
+  /** Who receives submitted/completed emails besides the submitter */
+  recipients?: (record: any) => string[];
+  /** Declarative form the page renders the tracker's views from */
+  form: FormDefinition;
+  /** Route applying a status spreadsheet (see app/api/upload-spreadsheet); adds an Upload Spreadsheet button */
+  spreadsheetApi?: string;
+}
+
+const DASH = '—';
+
+function formatDate(d: string | null) {
+  if (!d) return DASH;
+  return new Date(d).toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+export const ownerDisplay = (r: any) => (r.owner_name ? `${r.owner_number} – ${r.owner_name}` : r.owner_number);
+export const wellDisplay = (r: any) => (r.well_name ? `${r.well_code} – ${r.well_name}` : r.well_code);
+
+/** Display value of a form field, e.g. "W123 – Smith 1H" for a lookup with a label. */
+export function formatField(field: FieldConfig, record: any): string {
+  const value = record[field.name];
+  if (value === null || value === undefined || value === '') return DASH;
+  switch (field.type) {
+    case 'currency':
+      return formatCurrency(Number(value));
+    case 'percent':
+      return `${value}%`;
+    case 'date':
+      return formatDate(value);
+    case 'lookup': {
+      const label = lookupLabelField(field);
+      return label && record[label] ? `${value} – ${record[label]}` : String(value);
+    }
+    default:
+      return String(value);
+  }
+}
+
+/** Record field that holds a lookup's label (filled from its `labelKey`). */
+export function lookupLabelField(field: FieldConfig): string | undefined {
+  const { labelKey, fill } = field.lookup || {};
+  if (!labelKey || !fill) return undefined;
+  return Object.keys(fill).find((key) => fill[key] === labelKey);
+}
+
+function formSummary(form: FormDefinition) {
+  return (r: any): [string, string][] => [
+    ...form.fields.filter((f) => !f.hidden).map((f): [string, string] => [f.label, formatField(f, r)]),
+    ['Notes', r.notes || DASH],
+  ];
+}
+
+const OWNER_LOOKUP = {
+  url: '/api/owners',
+  valueKey: 'owner_number',
+  labelKey: 'owner_name',
+  fill: { owner_name: 'owner_name' },
+};
+
+const VOID_CHECKS_FORM: FormDefinition = {
+  title: 'New Void Check Entry',
+  successMessage: 'Your void check request is now pending.',
+  fields: [
+    {
+      name: 'check_number',
+      label: 'Check Number',
+      type: 'lookup',
+      required: true,
+      max: 50,
+      placeholder: 'Search and select a check...',
+      searchable: true,
+      lookup: {
+        url: '/api/checks',
+        valueKey: 'check_number',
+        fill: {
+          check_amount: 'check_amount',
+          owner_number: 'owner_number',
+          owner_name: 'owner_name',
+          check_date: 'check_date',
+        },
+      },
+    },
+    {
+      name: 'check_amount',
+      label: 'Check Amount',
+      type: 'currency',
+      required: true,
+      readOnly: true,
+      placeholder: 'Auto-filled when check is selected',
+    },
+    {
+      name: 'owner_number',
+      label: 'Owner',
+      type: 'lookup',
+      required: true,
+      readOnly: true,
+      placeholder: 'Auto-filled when check is selected',
+      searchable: true,
+      profile: 'owner',
+      lookup: OWNER_LOOKUP,
+    },
+    { name: 'owner_name', label: 'Owner Name', type: 'text', hidden: true, searchable: true },
+    {
+      name: 'check_date',
+      label: 'Check Date',
+      type: 'date',
+      required: true,
+      readOnly: true,
+      placeholder: 'Auto-filled when check is selected',
+    },
+    {
+      name: 'request_source',
+      label: 'Request Source',
+      type: 'select',
+      required: true,
+      options: REQUEST_SOURCES,
+      placeholder: 'Select a source...',
+    },
+  ],
+  columns: ['check_number', 'check_amount', 'owner_number', 'check_date', 'request_source'],
+  titleField: 'check_number',
+  describeDuplicate: (r) =>
+    `Check # ${r.check_number}, ${formatCurrency(Number(r.check_amount))}, Owner # ${r.owner_number}`,
+};
+
+const INTEREST_TRACKER_FORM: FormDefinition = {
+  title: 'New Interest Tracker Entry',
+  successMessage: 'Your interest tracker entry is now pending.',
+  fields: [
+    {
+      name: 'owner_number',
+      label: 'Owner # - Owner Name',
+      type: 'lookup',
+      required: true,
+      max: 50,
+      placeholder: 'Search by owner # or name...',
+      searchable: true,
+      profile: 'owner',
+      lookup: OWNER_LOOKUP,
+    },
+    { name: 'owner_name', label: 'Owner Name', type: 'text', hidden: true, searchable: true },
+    { name: 'interest_rate', label: '% Interest Charged', type: 'percent', required: true, placeholder: 'e.g. 5.25' },
+    { name: 'interest_start_date', label: 'Interest Start Date (Prod)', type: 'month', required: true, placeholder: 'YYYY-MM' },
+    { name: 'interest_end_date', label: 'Interest End Date (Prod)', type: 'month', required: true, placeholder: 'YYYY-MM' },
+    { name: 'amount_due', label: 'Amount of Late Payment', type: 'currency', placeholder: '0.00' },
+  ],
+  columns: ['owner_number', 'interest_rate', 'interest_start_date', 'interest_end_date', 'amount_due'],
+  titleField: 'owner_number',
+};
+
+const TRANSFER_LOG_FORM: FormDefinition = {
+  title: 'New Transfer Log Entry',
+  successMessage: 'Your transfer log entry is now pending.',
+  fields: [
+    {
+      name: 'accounting_group',
+      label: 'Accounting Group',
+      type: 'select',
+      required: true,
+      options: ACCOUNTING_GROUPS,
+      placeholder: 'Select accounting group...',
+      filter: true,
+    },
+    {
+      name: 'well_code',
+      label: 'Well Code / Name',
+      type: 'lookup',
+      required: true,
+      max: 50,
+      placeholder: 'Search by well code or name...',
+      searchable: true,
+      profile: 'well',
+      lookup: {
+        url: '/api/wells',
+        valueKey: 'well_code',
+        labelKey: 'well_name',
+        fill: { well_name: 'well_name', search_key: 'search_key' },
+      },
+    },
+    { name: 'well_name', label: 'Well Name', type: 'text', hidden: true, searchable: true },
+    {
+      name: 'search_key',
+      label: 'Search Key',
+      type: 'text',
+      readOnly: true,
+      placeholder: 'Auto-populated from well',
+      searchable: true,
+    },
+  ],
+  columns: ['search_key', 'well_code', 'accounting_group'],
+  titleField: 'well_code',
+};
+
+const fieldNames = (form: FormDefinition, test: (f: FieldConfig) => boolean | undefined) =>
+  form.fields.filter(test).map((f) => f.name);
+
+const splitEmails = (list: string | undefined) =>
+  (list || '').split(',').map((e) => e.trim()).filter(Boolean);
+
+export const TRACKERS: Record<WorkflowTable, TrackerDefinition> = {
+  void_checks: {
+    table: 'void_checks',
+    app: 'void-checks',
+    title: 'Void Checks',
+    icon: '✓',
+    api: '/api/submissions',
+    noun: 'void check',
+    form: VOID_CHECKS_FORM,
+    schema: VOID_CHECK_SCHEMA,
+    searchColumns: fieldNames(VOID_CHECKS_FORM, (f) => f.searchable),
+    sortColumns: ['check_number', 'check_amount', 'owner_number', 'owner_name', 'check_date', 'request_source'],
+    slaBusinessDays: 10,
+    describe: (r) => `Void Check #${r.check_number}`,
+    summary: (r) => [
+      ['Check Number', r.check_number],
+      ['Check Amount', formatCurrency(Number(r.check_amount))],
+      ['Owner', ownerDisplay(r)],
+      ['Check Date', formatDate(r.check_date)],
+      ['Request Source', r.request_source || DASH],
+      ['Request Date', formatDate(r.request_date)],
+      ['Notes', r.notes || DASH],
+    ],
+    emails: {
+      submitted: {
+        subject: 'Voided Check #{{check_number}}',
+        heading: 'Void Check Submitted',
+        intro: 'Your void check request has been submitted successfully.',
+      },
+      completed: {
+        subject: 'Request Completed - Check #{{check_number}}',
+        heading: 'Request Completed',
+        intro: 'The following void check request has been completed.',
+      },
+      report: {
+        subject: 'Pending Void Checks Report — {{month}}',
+        heading: 'Pending Void Checks Report',
+        intro: '{{month}}: there are currently {{items}}. Please see the attached spreadsheet for full details.',
+      },
+    },
+    spreadsheetApi: '/api/upload-spreadsheet',
+  },
+  interest_tracker: {
+    table: 'interest_tracker',
+    app: 'interest-tracker',
+    title: 'Interest Tracker',
+    icon: '%',
+    api: '/api/interest-tracker',
+    noun: 'interest tracker',
+    form: INTEREST_TRACKER_FORM,
+    schema: INTEREST_TRACKER_SCHEMA,
+    searchColumns: fieldNames(INTEREST_TRACKER_FORM, (f) => f.searchable),
+    sortColumns: ['owner_number', 'owner_name', 'interest_rate', 'interest_start_date', 'interest_end_date', 'amount_due'],
+    slaBusinessDays: 15,
+    describe: (r) => `Interest Tracker — ${ownerDisplay(r)}`,
+    summary: (r) => [
+      ['Owner', ownerDisplay(r)],
+      ['% Interest Charged', `${r.interest_rate}%`],
+      ['Interest Start Date (Prod)', r.interest_start_date || DASH],
+      ['Interest End Date (Prod)', r.interest_end_date || DASH],
+      ['Amount Due', formatCurrency(Number(r.amount_due))],
+      ['Notes', r.notes || DASH],
+    ],
+    emails: {
+      submitted: {
+        subject: 'Interest Tracker — {{owner}}',
+        heading: 'Interest Tracker Submitted',
+        intro: 'Your interest tracker entry has been submitted successfully.',
+      },
+      completed: {
+        subject: 'Request Completed - {{owner}}',
+        heading: 'Request Completed',
+        intro: 'The following interest tracker entry has been completed.',
+      },
+      report: {
+        subject: 'Pending Interest Tracker Report — {{month}}',
+        heading: 'Pending Interest Tracker Report',
+        intro: '{{month}}: there are currently {{items}}. Please see the attached spreadsheet for full details.',
+      },
+    },
+  },
+  transfer_log: {
+    table: 'transfer_log',
+    app: 'transfer-log',
+    title: 'Transfer Log',
+    icon: '↔',
+    api: '/api/transfer-log',
+    noun: 'transfer log',
+    form: TRANSFER_LOG_FORM,
+    schema: schemaFromFields(TRANSFER_LOG_FORM.fields),
+    searchColumns: fieldNames(TRANSFER_LOG_FORM, (f) => f.searchable),
+    sortColumns: TRANSFER_LOG_FORM.columns,
+    slaBusinessDays: 5,
+    filterColumns: fieldNames(TRANSFER_LOG_FORM, (f) => f.filter),
+    describe: (r) => `Transfer Log — ${wellDisplay(r)}`,
+    summary: formSummary(TRANSFER_LOG_FORM),
+    emails: {
+      submitted: {
+        subject: 'Transfer Log Form - {{well}}',
+        heading: 'Transfer Log Submitted',
+        intro: 'Land has entered a Reverse/Rebook to be processed.',
+      },
+      completed: {
+        subject: 'Request Completed - {{well}}',
+        heading: 'Request Completed',
+        intro: 'The following transfer log entry has been completed.',
+      },
+    },
+    // Each accounting group has its own distribution list
+    recipients: (r) =>
+      splitEmails(r.accounting_group === 'JIB' ? process.env.TRANSFER_JIB_EMAILS : process.env.TRANSFER_REVENUE_EMAILS),
+  },
+};
+
+export const TRACKER_TABLES = Object.keys(TRACKERS) as WorkflowTable[];
+
+export function getTracker(table: string): TrackerDefinition {
+  const tracker = TRACKERS[table as WorkflowTable];
+  if (!tracker) throw new Error(`Unknown tracker table: ${table}`);
+  return tracker;
+}
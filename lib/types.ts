@@ -1,3 +1,10 @@
+export type CompletionStatus =
+  | 'Pending'
+  | 'In Review'
+  | 'Awaiting Bank'
+  | 'Complete'
+  | 'Request Invalidated';
+
 export interface VoidCheckSubmission {
   id?: string;
   check_number: string;
@@ -8,12 +15,25 @@ export interface VoidCheckSubmission {
   request_source: string;
   notes: string;
   request_date: string;
-  completion_status: 'Pending' | 'Complete' | 'Request Invalidated';
+  completion_status: CompletionStatus;
   sign_off_date: string | null;
   created_by: string;
+  updated_by?: string | null;
+  assigned_to?: string | null;
+  invalidation_reason?: string | null;
+  invalidation_note?: string | null;
+  duplicate_override_reason?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   attachments?: string[];
 }
 
+export interface DuplicateMatch {
+  match: 'exact' | 'near';
+  reason: string;
+  record: VoidCheckSubmission;
+}
+
 export interface CheckOption {
   check_number: string;
   owner_number: string;
@@ -32,9 +52,15 @@ export interface InterestTrackerSubmission {
   amount_due: number;
   notes: string;
   request_date: string;
-  completion_status: 'Pending' | 'Complete' | 'Request Invalidated';
+  completion_status: CompletionStatus;
   sign_off_date: string | null;
   created_by: string;
+  updated_by?: string | null;
+  assigned_to?: string | null;
+  invalidation_reason?: string | null;
+  invalidation_note?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   attachments?: string[];
 }
 
@@ -51,19 +77,104 @@ export interface TransferLogSubmission {
   search_key: string;
   notes: string;
   request_date: string;
-  completion_status: 'Pending' | 'Complete' | 'Request Invalidated';
+  completion_status: CompletionStatus;
   sign_off_date: string | null;
   created_by: string;
+  updated_by?: string | null;
+  assigned_to?: string | null;
+  invalidation_reason?: string | null;
+  invalidation_note?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   attachments?: string[];
 }
 
+/**
+ * A row of any tracker: the shared workflow/bookkeeping columns plus the
+ * tracker's own fields. Used by the config-driven views.
+ */
+export interface TrackerSubmission {
+  id?: string;
+  notes: string;
+  request_date: string;
+  completion_status: CompletionStatus;
+  sign_off_date: string | null;
+  created_by: string;
+  updated_by?: string | null;
+  assigned_to?: string | null;
+  invalidation_reason?: string | null;
+  invalidation_note?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  attachments?: string[];
+  [field: string]: any;
+}
+
+export type FieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'currency'
+  | 'percent'
+  | 'date'
+  | 'month'
+  | 'select'
+  | 'lookup';
+
+export interface LookupSource {
+  /** Search endpoint, called with `?search=<query>` (e.g. /api/wells) */
+  url: string;
+  /** Option key stored in the field */
+  valueKey: string;
+  /** Option key shown next to the value */
+  labelKey?: string;
+  /** Other record fields filled from the selected option: record field -> option key */
+  fill?: Record<string, string>;
+}
+
+/** One input of a config-driven tracker form (see lib/trackers.ts). */
+export interface FieldConfig {
+  name: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  placeholder?: string;
+  /** Choices for `select` fields */
+  options?: readonly string[];
+  /** Search source for `lookup` fields */
+  lookup?: LookupSource;
+  /** Maximum length for text, maximum value for numbers */
+  max?: number;
+  /** Stored but not rendered as its own input (filled from a lookup) */
+  hidden?: boolean;
+  /** Rendered but not editable (filled from a lookup) */
+  readOnly?: boolean;
+  /** Adds a dropdown filter to the submissions list (`select` fields) */
+  filter?: boolean;
+  /** Matched by the submissions search box */
+  searchable?: boolean;
+  /** Links the value in lists and the detail modal to its 360 page */
+  profile?: ProfileKind;
+}
+
 export interface WellOption {
   well_code: string;
   well_name: string;
   search_key: string;
 }
 
-export type AppView = 'void-checks' | 'interest-tracker' | 'transfer-log';
+export type UserRole = 'Submitter' | 'Processor' | 'Admin';
+
+export interface SessionUser {
+  email: string;
+  name: string;
+  roles: UserRole[];
+}
+
+/** `?app=` value of a request tracker */
+export type TrackerApp = 'void-checks' | 'interest-tracker' | 'transfer-log';
+
+export type AppView = 'dashboard' | 'outbox' | 'templates' | TrackerApp;
 
 export type TabView = 'new-entry' | 'submissions';
 
@@ -74,4 +185,168 @@ export interface SubmissionFilters {
   dateFrom: string;
   dateTo: string;
   accountingGroup?: string;
+  assignedTo?: string;
+  /** Only entries requested more than this many days ago */
+  olderThan?: string;
+  /** Deep-linked entry: narrows the list to that one row */
+  id?: string;
+}
+
+/** A user's named set of list filters; `query` is the list's URL query string. */
+export interface SavedView {
+  id: string;
+  owner: string;
+  app: TrackerApp;
+  name: string;
+  query: string;
+  created_at: string;
+}
+
+export interface SearchResult {
+  id: string;
+  /** Short label from the tracker, e.g. "Void Check #1234" */
+  label: string;
+  status: CompletionStatus;
+  request_date: string;
+  notes: string;
+}
+
+/** Global search matches for one tracker; `total` counts matches beyond those returned. */
+export interface SearchGroup {
+  table: string;
+  app: TrackerApp;
+  title: string;
+  total: number;
+  results: SearchResult[];
+}
+
+/** Entities with a 360 page (`?owner=` / `?well=`) gathering everything recorded against them. */
+export type ProfileKind = 'owner' | 'well';
+
+/** Requests of one tracker in a given status; `amount` sums the tracker's money column. */
+export interface StatusTotal {
+  status: CompletionStatus;
+  count: number;
+  amount: number;
+}
+
+/** Everything about one owner: their requests in each tracker plus Snowflake's open checks. */
+export interface OwnerProfile {
+  owner_number: string;
+  owner_name: string;
+  void_checks: VoidCheckSubmission[];
+  interest_entries: InterestTrackerSubmission[];
+  totals: {
+    void_checks: StatusTotal[];
+    interest_tracker: StatusTotal[];
+  };
+  /** Unreconciled checks from the revenue check register */
+  outstanding_checks: CheckOption[];
+  /** Set when Snowflake couldn't be queried; the request sections still load */
+  outstanding_error?: string;
+}
+
+/** A well's transfer log history alongside its DIM_WELL attributes. */
+export interface WellProfile {
+  well_code: string;
+  well_name: string;
+  search_key: string;
+  /** Every DIM_WELL column for the well; null when it isn't found or Snowflake is unavailable */
+  attributes: Record<string, unknown> | null;
+  attributes_error?: string;
+  transfers: TrackerSubmission[];
+  /** Transfer counts per status, split by accounting group */
+  totals: { status: CompletionStatus; counts: Record<string, number> }[];
+}
+
+/** Queue metrics for one tracker on the dashboard, computed by /api/dashboard. */
+export interface TrackerMetrics {
+  table: string;
+  app: TrackerApp;
+  title: string;
+  statuses: { status: CompletionStatus; count: number }[];
+  /** Pending requests by days since request_date */
+  pending_aging: { label: string; count: number }[];
+  /** Mean days from request_date to sign_off_date over signed-off requests; null if there are none */
+  avg_days_to_sign_off: number | null;
+  /** Requests submitted and signed off per week (weeks start Monday, UTC), oldest first */
+  weekly: { week: string; submitted: number; completed: number }[];
+  /** Sign-offs per processor over the same weeks, most first */
+  processors: { processor: string; completed: number }[];
+}
+
+export type RequestEventAction = 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+
+export type RequestEventSource =
+  | 'form'
+  | 'ui_edit'
+  | 'status_change'
+  | 'assignment'
+  | 'bulk_update'
+  | 'spreadsheet_upload'
+  | 'retention';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface RequestEvent {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: RequestEventAction;
+  source: RequestEventSource;
+  actor: string;
+  changes: Record<string, FieldChange>;
+  reason?: string | null;
+  created_at: string;
+}
+
+export interface RequestComment {
+  id: string;
+  table_name: string;
+  record_id: string;
+  author: string;
+  body: string;
+  attachments: string[];
+  created_at: string;
+}
+
+/** Outbound email lifecycle: queued (or awaiting retry), delivered, or given up on */
+export type OutboxStatus = 'pending' | 'sent' | 'dead';
+
+/** A row of email_outbox as listed in the admin outbox view (body omitted) */
+export interface OutboxEmail {
+  id: string;
+  kind: string;
+  to_address: string;
+  subject: string;
+  attachments: string[];
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/** Admin override of an email template's wording (email_templates); null fields use the default */
+export interface EmailTemplateOverride {
+  name: string;
+  subject: string | null;
+  heading: string | null;
+  intro: string | null;
+  updated_by: string;
+  updated_at: string;
+}
+
+/** An email template as listed in the admin template editor */
+export interface EmailTemplateInfo {
+  name: string;
+  description: string;
+  /** Placeholders available as `{{name}}` */
+  variables: string[];
+  defaults: { subject: string; heading: string; intro: string };
+  override: EmailTemplateOverride | null;
 }
@@ -0,0 +1,228 @@
+import type { FieldConfig, InterestTrackerSubmission, VoidCheckSubmission } from './types';
+
+/**
+ * Request payload validation shared by the tracker API routes and the
+ * forms. Each schema covers the user-editable fields of a tracker record
+ * and normalizes them (trimmed text, rounded numbers, ISO dates). Errors
+ * are keyed by field name so the UI can show them next to the input; the
+ * routes return them with a 422.
+ */
+
+export type FieldErrors = Record<string, string>;
+
+type RuleResult<V> = { value: V; error?: undefined } | { value?: undefined; error: string };
+type Rule<V> = (raw: unknown) => RuleResult<V>;
+
+export interface Schema<T> {
+  fields: { [K in keyof T]-?: Rule<T[K]> };
+  /** Cross-field checks, run against the full record after the field rules pass. */
+  check?: (record: T) => FieldErrors;
+}
+
+export type ValidationResult<V> = { value: V; errors: null } | { value: null; errors: FieldErrors };
+
+export const REQUEST_SOURCES = ['Returned Check', 'Void Request'] as const;
+export const ACCOUNTING_GROUPS = ['JIB', 'Revenue'] as const;
+
+/** Storage paths produced by /api/upload: `<folder>/<timestamp>-<safe name>` */
+const ATTACHMENT_PATH = /^[a-z-]+\/\d+-[A-Za-z0-9._-]+$/;
+const MAX_ATTACHMENTS = 20;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const isBlank = (raw: unknown) => raw === undefined || raw === null || String(raw).trim() === '';
+
+function text({ required = false, max = 200 } = {}): Rule<string> {
+  return (raw) => {
+    if (isBlank(raw)) return required ? { error: 'Required' } : { value: '' };
+    if (typeof raw !== 'string' && typeof raw !== 'number') return { error: 'Must be text' };
+    const value = String(raw).trim();
+    if (value.length > max) return { error: `Must be ${max} characters or fewer` };
+    return { value };
+  };
+}
+
+function oneOf<V extends string>(options: readonly V[]): Rule<V> {
+  return (raw) => {
+    if (isBlank(raw)) return { error: 'Required' };
+    const value = String(raw).trim() as V;
+    return options.includes(value) ? { value } : { error: `Must be one of: ${options.join(', ')}` };
+  };
+}
+
+function decimal({ required = true, min = 0, max = Infinity, places = 2 } = {}): Rule<number> {
+  return (raw) => {
+    if (isBlank(raw)) return required ? { error: 'Required' } : { value: 0 };
+    const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.replace(/[$,\s]/g, '')) : NaN;
+    if (!Number.isFinite(value)) return { error: 'Must be a number' };
+    if (value < min) return { error: `Must be at least ${min}` };
+    if (value > max) return { error: `Must be at most ${max}` };
+    const factor = 10 ** places;
+    return { value: Math.round(value * factor) / factor };
+  };
+}
+
+/** Calendar date as YYYY-MM-DD (a timestamp is cut to its date part). */
+function isoDate(): Rule<string> {
+  return (raw) => {
+    if (isBlank(raw)) return { error: 'Required' };
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(raw).trim());
+    if (!match) return { error: 'Use a date in YYYY-MM-DD format' };
+    const [, y, m, d] = match.map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+      return { error: 'Not a valid date' };
+    }
+    return { value: match[0] };
+  };
+}
+
+/**
+ * Production month, stored as YYYY-MM. Also accepts MM/YYYY, MM-YYYY and
+ * "Jan 2024" so entries typed before the month picker still validate.
+ */
+function productionMonth(): Rule<string> {
+  return (raw) => {
+    if (isBlank(raw)) return { error: 'Required' };
+    const str = String(raw).trim();
+    let year: number | undefined;
+    let month: number | undefined;
+    let m: RegExpExecArray | null;
+    if ((m = /^(\d{4})-(\d{1,2})$/.exec(str))) {
+      year = Number(m[1]);
+      month = Number(m[2]);
+    } else if ((m = /^(\d{1,2})[/-](\d{4})$/.exec(str))) {
+      year = Number(m[2]);
+      month = Number(m[1]);
+    } else if ((m = /^([A-Za-z]{3,9})\.?\s+(\d{4})$/.exec(str))) {
+      year = Number(m[2]);
+      month = MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1;
+    }
+    if (!year || !month || month < 1 || month > 12) {
+      return { error: 'Use a production month (YYYY-MM)' };
+    }
+    return { value: `${year}-${String(month).padStart(2, '0')}` };
+  };
+}
+
+/** Lets a blank value through as null (optional dates, months and picklists). */
+function optional<V>(rule: Rule<V>): Rule<V | null> {
+  return (raw) => (isBlank(raw) ? { value: null } : rule(raw));
+}
+
+function attachmentPaths(): Rule<string[]> {
+  return (raw) => {
+    if (raw === undefined || raw === null) return { value: [] };
+    if (!Array.isArray(raw)) return { error: 'Must be a list of uploaded files' };
+    if (raw.length > MAX_ATTACHMENTS) return { error: `At most ${MAX_ATTACHMENTS} attachments` };
+    const invalid = raw.find((path) => typeof path !== 'string' || !ATTACHMENT_PATH.test(path));
+    if (invalid !== undefined) return { error: 'Attachments must be files uploaded through the form' };
+    return { value: raw as string[] };
+  };
+}
+
+export type VoidCheckInput = Pick<
+  VoidCheckSubmission,
+  'check_number' | 'check_amount' | 'owner_number' | 'owner_name' | 'check_date' | 'request_source' | 'notes' | 'attachments'
+>;
+
+export type InterestTrackerInput = Pick<
+  InterestTrackerSubmission,
+  'owner_number' | 'owner_name' | 'interest_rate' | 'interest_start_date' | 'interest_end_date' | 'amount_due' | 'notes' | 'attachments'
+>;
+
+export const VOID_CHECK_SCHEMA: Schema<VoidCheckInput> = {
+  fields: {
+    check_number: text({ required: true, max: 50 }),
+    check_amount: decimal({ min: 0.01, max: 9999999999.99 }),
+    owner_number: text({ required: true, max: 50 }),
+    owner_name: text(),
+    check_date: isoDate(),
+    request_source: oneOf(REQUEST_SOURCES),
+    notes: text({ max: 5000 }),
+    attachments: attachmentPaths(),
+  },
+};
+
+export const INTEREST_TRACKER_SCHEMA: Schema<InterestTrackerInput> = {
+  fields: {
+    owner_number: text({ required: true, max: 50 }),
+    owner_name: text(),
+    interest_rate: decimal({ max: 99.9999, places: 4 }),
+    interest_start_date: productionMonth(),
+    interest_end_date: productionMonth(),
+    amount_due: decimal({ required: false, max: 9999999999.99 }),
+    notes: text({ max: 5000 }),
+    attachments: attachmentPaths(),
+  },
+  // YYYY-MM strings compare in calendar order; older free-text values are left alone
+  check: ({ interest_start_date: start, interest_end_date: end }): FieldErrors =>
+    /^\d{4}-\d{2}$/.test(start) && /^\d{4}-\d{2}$/.test(end) && end < start
+      ? { interest_end_date: 'Must be on or after the start date' }
+      : {},
+};
+
+function ruleForField(field: FieldConfig): Rule<any> {
+  const required = !!field.required;
+  switch (field.type) {
+    case 'number':
+      return decimal({ required, max: field.max, places: 4 });
+    case 'currency':
+      return decimal({ required, max: field.max ?? 9999999999.99 });
+    case 'percent':
+      return decimal({ required, max: field.max ?? 99.9999, places: 4 });
+    case 'date':
+      return required ? isoDate() : optional(isoDate());
+    case 'month':
+      return required ? productionMonth() : optional(productionMonth());
+    case 'select':
+      return required ? oneOf(field.options || []) : optional(oneOf(field.options || []));
+    default:
+      return text({ required, max: field.max ?? (field.type === 'textarea' ? 5000 : 200) });
+  }
+}
+
+/**
+ * Schema for a config-driven tracker, built from its form fields (see
+ * lib/trackers.ts). Notes and attachments are common to every tracker.
+ */
+export function schemaFromFields(fields: FieldConfig[]): Schema<Record<string, any>> {
+  const rules: Record<string, Rule<any>> = {};
+  for (const field of fields) rules[field.name] = ruleForField(field);
+  rules.notes = text({ max: 5000 });
+  rules.attachments = attachmentPaths();
+  return { fields: rules };
+}
+
+/**
+ * Validate a request body against a schema. Without `existing` every
+ * field is validated (create); with it only the fields present in the
+ * body are, and cross-field checks run against the merged record (edit).
+ * Fields not in the schema are ignored.
+ */
+export function validatePayload<T>(schema: Schema<T>, body: any): ValidationResult<Required<T>>;
+export function validatePayload<T>(schema: Schema<T>, body: any, existing: Partial<T>): ValidationResult<Partial<T>>;
+export function validatePayload<T>(
+  schema: Schema<T>,
+  body: any,
+  existing?: Partial<T>
+): ValidationResult<Partial<T>> {
+  const value: Partial<T> = {};
+  const errors: FieldErrors = {};
+
+  for (const key of Object.keys(schema.fields) as (keyof T & string)[]) {
+    if (existing && body?.[key] === undefined) continue;
+    const result = schema.fields[key](body?.[key]);
+    if (result.error !== undefined) errors[key] = result.error;
+    else value[key] = result.value;
+  }
+
+  if (Object.keys(errors).length === 0 && schema.check) {
+    Object.assign(errors, schema.check({ ...existing, ...value } as T));
+  }
+
+  return Object.keys(errors).length > 0 ? { value: null, errors } : { value, errors: null };
+}
+
+/** Attachment list for comments, which have no schema of their own. */
+export const validateAttachments = attachmentPaths();
@@ -0,0 +1,185 @@
+import type { CompletionStatus } from './types';
+
+/**
+ * Status workflow for each tracker: the states a request moves through,
+ * the transitions allowed between them, and which transitions need a
+ * reason. Every status change (single, bulk and spreadsheet upload) is
+ * validated against this, and the UI builds its status lists from it.
+ */
+
+export type WorkflowTable = 'void_checks' | 'interest_tracker' | 'transfer_log';
+
+export interface StatusTransition {
+  from: CompletionStatus;
+  to: CompletionStatus;
+  requiresReason?: boolean;
+}
+
+export interface Workflow {
+  statuses: CompletionStatus[];
+  initial: CompletionStatus;
+  /** Entering this status stamps sign_off_date; leaving it clears it. */
+  signOff: CompletionStatus;
+  /** Entering this status requires an invalidation reason and notifies the submitter. */
+  invalidated: CompletionStatus;
+  /** Statuses that end the workflow; everything else is still open. */
+  closed: CompletionStatus[];
+  transitions: StatusTransition[];
+}
+
+const t = (from: CompletionStatus, to: CompletionStatus, requiresReason = false): StatusTransition => ({
+  from,
+  to,
+  requiresReason,
+});
+
+const WORKFLOWS: Record<WorkflowTable, Workflow> = {
+  void_checks: {
+    statuses: ['Pending', 'In Review', 'Awaiting Bank', 'Complete', 'Request Invalidated'],
+    initial: 'Pending',
+    signOff: 'Complete',
+    invalidated: 'Request Invalidated',
+    closed: ['Complete', 'Request Invalidated'],
+    transitions: [
+      t('Pending', 'In Review'),
+      t('Pending', 'Complete'),
+      t('Pending', 'Request Invalidated', true),
+      t('In Review', 'Pending'),
+      t('In Review', 'Awaiting Bank'),
+      t('In Review', 'Complete'),
+      t('In Review', 'Request Invalidated', true),
+      t('Awaiting Bank', 'In Review'),
+      t('Awaiting Bank', 'Complete'),
+      t('Awaiting Bank', 'Request Invalidated', true),
+      t('Complete', 'Pending', true),
+      t('Request Invalidated', 'Pending', true),
+    ],
+  },
+  interest_tracker: {
+    statuses: ['Pending', 'In Review', 'Complete', 'Request Invalidated'],
+    initial: 'Pending',
+    signOff: 'Complete',
+    invalidated: 'Request Invalidated',
+    closed: ['Complete', 'Request Invalidated'],
+    transitions: [
+      t('Pending', 'In Review'),
+      t('Pending', 'Complete'),
+      t('Pending', 'Request Invalidated', true),
+      t('In Review', 'Pending'),
+      t('In Review', 'Complete'),
+      t('In Review', 'Request Invalidated', true),
+      t('Complete', 'Pending', true),
+      t('Request Invalidated', 'Pending', true),
+    ],
+  },
+  transfer_log: {
+    statuses: ['Pending', 'In Review', 'Complete', 'Request Invalidated'],
+    initial: 'Pending',
+    signOff: 'Complete',
+    invalidated: 'Request Invalidated',
+    closed: ['Complete', 'Request Invalidated'],
+    transitions: [
+      t('Pending', 'In Review'),
+      t('Pending', 'Complete'),
+      t('Pending', 'Request Invalidated', true),
+      t('In Review', 'Pending'),
+      t('In Review', 'Complete'),
+      t('In Review', 'Request Invalidated', true),
+      t('Complete', 'Pending', true),
+      t('Request Invalidated', 'Pending', true),
+    ],
+  },
+};
+
+// Badge colour class for each status
+const STATUS_CLASSES: Record<CompletionStatus, string> = {
+  Pending: 'pending',
+  'In Review': 'in-review',
+  'Awaiting Bank': 'in-review',
+  Complete: 'complete',
+  'Request Invalidated': 'invalidated',
+};
+
+export function getWorkflow(table: WorkflowTable): Workflow {
+  return WORKFLOWS[table];
+}
+
+export function statusClass(status: string): string {
+  return STATUS_CLASSES[status as CompletionStatus] || 'pending';
+}
+
+/** Statuses still being worked (used by the pending reports). */
+export function openStatuses(table: WorkflowTable): CompletionStatus[] {
+  const { statuses, closed } = WORKFLOWS[table];
+  return statuses.filter((s) => !closed.includes(s));
+}
+
+/** Statuses a request can move to from `from`. */
+export function nextStatuses(table: WorkflowTable, from: string): CompletionStatus[] {
+  return WORKFLOWS[table].transitions.filter((tr) => tr.from === from).map((tr) => tr.to);
+}
+
+export function requiresReason(table: WorkflowTable, from: string, to: string): boolean {
+  return WORKFLOWS[table].transitions.some(
+    (tr) => tr.from === from && tr.to === to && tr.requiresReason
+  );
+}
+
+/**
+ * Check a status change against the tracker's workflow.
+ * Returns an error message, or null when the change is allowed.
+ * Re-saving the current status is always allowed.
+ */
+export function validateTransition(
+  table: WorkflowTable,
+  from: string,
+  to: string,
+  reason?: string | null
+): string | null {
+  if (from === to) return null;
+
+  const workflow = WORKFLOWS[table];
+  if (!workflow.statuses.includes(to as CompletionStatus)) {
+    return `Invalid status "${to}". Must be: ${workflow.statuses.join(', ')}`;
+  }
+
+  const transition = workflow.transitions.find((tr) => tr.from === from && tr.to === to);
+  if (!transition) {
+    return `Cannot move from "${from}" to "${to}"`;
+  }
+
+  if (transition.requiresReason && !reason?.trim()) {
+    return `A reason is required to move from "${from}" to "${to}"`;
+  }
+
+  return null;
+}
+
+// Picklist for why a request was invalidated; 'Other' requires free text
+export const INVALIDATION_REASONS = [
+  'Duplicate request',
+  'Check already cashed',
+  'Incorrect owner or check details',
+  'Missing supporting documentation',
+  'Withdrawn by requester',
+  'Other',
+];
+
+/**
+ * Check the invalidation reason sent with a move to the invalidated status.
+ * Returns an error message, or null when the reason is acceptable.
+ */
+export function validateInvalidation(reason?: string | null, note?: string | null): string | null {
+  if (!reason || !INVALIDATION_REASONS.includes(reason)) {
+    return `An invalidation reason is required. Must be: ${INVALIDATION_REASONS.join(', ')}`;
+  }
+  if (reason === 'Other' && !note?.trim()) {
+    return 'Please describe the reason when invalidating with "Other"';
+  }
+  return null;
+}
+
+export function formatInvalidation(reason?: string | null, note?: string | null): string {
+  if (!reason) return '';
+  return note?.trim() ? `${reason}: ${note.trim()}` : reason;
+}
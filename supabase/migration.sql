@@ -83,3 +83,386 @@ CREATE POLICY "Allow update for all" ON interest_tracker
 
 CREATE POLICY "Allow delete for all" ON interest_tracker
   FOR DELETE USING (true);
+
+-- ============================================================
+-- Attribution: last editor, stamped server-side from the session
+-- ============================================================
+
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS updated_by TEXT;
+ALTER TABLE interest_tracker ADD COLUMN IF NOT EXISTS updated_by TEXT;
+ALTER TABLE transfer_log ADD COLUMN IF NOT EXISTS updated_by TEXT;
+
+-- ============================================================
+-- Request Events (audit history for every change to every request)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS request_events (
+  id          UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name  TEXT NOT NULL,
+  record_id   UUID NOT NULL,
+  action      TEXT NOT NULL
+    CHECK (action IN ('created', 'updated', 'deleted')),
+  source      TEXT NOT NULL
+    CHECK (source IN ('form', 'ui_edit', 'status_change', 'bulk_update', 'spreadsheet_upload')),
+  actor       TEXT NOT NULL,
+  changes     JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No foreign key: history must outlive the row it describes
+CREATE INDEX idx_request_events_record ON request_events (table_name, record_id, created_at DESC);
+
+ALTER TABLE request_events ENABLE ROW LEVEL SECURITY;
+
+-- History is append-only: no update or delete policies
+CREATE POLICY "Allow read for all" ON request_events
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert for all" ON request_events
+  FOR INSERT WITH CHECK (true);
+
+-- ============================================================
+-- Soft delete: trashed rows are purged by /api/cron/purge-trash
+-- ============================================================
+
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+ALTER TABLE interest_tracker ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE interest_tracker ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+ALTER TABLE transfer_log ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE transfer_log ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_void_checks_deleted_at ON void_checks (deleted_at);
+CREATE INDEX IF NOT EXISTS idx_interest_tracker_deleted_at ON interest_tracker (deleted_at);
+CREATE INDEX IF NOT EXISTS idx_transfer_log_deleted_at ON transfer_log (deleted_at);
+
+ALTER TABLE request_events DROP CONSTRAINT IF EXISTS request_events_action_check;
+ALTER TABLE request_events ADD CONSTRAINT request_events_action_check
+  CHECK (action IN ('created', 'updated', 'deleted', 'restored', 'purged'));
+
+ALTER TABLE request_events DROP CONSTRAINT IF EXISTS request_events_source_check;
+ALTER TABLE request_events ADD CONSTRAINT request_events_source_check
+  CHECK (source IN ('form', 'ui_edit', 'status_change', 'bulk_update', 'spreadsheet_upload', 'retention'));
+
+-- ============================================================
+-- Request Comments (per-request discussion thread)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS request_comments (
+  id          UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name  TEXT NOT NULL,
+  record_id   UUID NOT NULL,
+  author      TEXT NOT NULL,
+  body        TEXT NOT NULL,
+  attachments JSONB DEFAULT '[]'::JSONB,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_request_comments_record ON request_comments (table_name, record_id, created_at);
+
+ALTER TABLE request_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read for all" ON request_comments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert for all" ON request_comments
+  FOR INSERT WITH CHECK (true);
+
+-- ============================================================
+-- Assignment: processor currently working each request
+-- ============================================================
+
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS assigned_to TEXT;
+ALTER TABLE interest_tracker ADD COLUMN IF NOT EXISTS assigned_to TEXT;
+ALTER TABLE transfer_log ADD COLUMN IF NOT EXISTS assigned_to TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_void_checks_assigned_to ON void_checks (assigned_to);
+CREATE INDEX IF NOT EXISTS idx_interest_tracker_assigned_to ON interest_tracker (assigned_to);
+CREATE INDEX IF NOT EXISTS idx_transfer_log_assigned_to ON transfer_log (assigned_to);
+
+ALTER TABLE request_events DROP CONSTRAINT IF EXISTS request_events_source_check;
+ALTER TABLE request_events ADD CONSTRAINT request_events_source_check
+  CHECK (source IN ('form', 'ui_edit', 'status_change', 'assignment', 'bulk_update', 'spreadsheet_upload', 'retention'));
+
+-- ============================================================
+-- Status workflow (see lib/workflow.ts for allowed transitions)
+-- ============================================================
+
+ALTER TABLE void_checks DROP CONSTRAINT IF EXISTS void_checks_completion_status_check;
+ALTER TABLE void_checks ADD CONSTRAINT void_checks_completion_status_check
+  CHECK (completion_status IN ('Pending', 'In Review', 'Awaiting Bank', 'Complete', 'Request Invalidated'));
+
+ALTER TABLE interest_tracker DROP CONSTRAINT IF EXISTS interest_tracker_completion_status_check;
+ALTER TABLE interest_tracker ADD CONSTRAINT interest_tracker_completion_status_check
+  CHECK (completion_status IN ('Pending', 'In Review', 'Complete', 'Request Invalidated'));
+
+ALTER TABLE transfer_log DROP CONSTRAINT IF EXISTS transfer_log_completion_status_check;
+ALTER TABLE transfer_log ADD CONSTRAINT transfer_log_completion_status_check
+  CHECK (completion_status IN ('Pending', 'In Review', 'Complete', 'Request Invalidated'));
+
+-- Reason given for transitions that require one
+ALTER TABLE request_events ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- ============================================================
+-- Invalidation reason (picklist in lib/workflow.ts plus free text)
+-- ============================================================
+
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS invalidation_reason TEXT;
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS invalidation_note TEXT;
+ALTER TABLE interest_tracker ADD COLUMN IF NOT EXISTS invalidation_reason TEXT;
+ALTER TABLE interest_tracker ADD COLUMN IF NOT EXISTS invalidation_note TEXT;
+ALTER TABLE transfer_log ADD COLUMN IF NOT EXISTS invalidation_reason TEXT;
+ALTER TABLE transfer_log ADD COLUMN IF NOT EXISTS invalidation_note TEXT;
+
+-- ============================================================
+-- Duplicate override: reason given when submitting a possible duplicate
+-- ============================================================
+
+ALTER TABLE void_checks ADD COLUMN IF NOT EXISTS duplicate_override_reason TEXT;
+CREATE INDEX IF NOT EXISTS idx_void_checks_owner_amount ON void_checks (owner_number, check_amount);
+
+-- ============================================================
+-- Saved Views (per-user named submissions list filters)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id          UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner       TEXT NOT NULL,
+  app         TEXT NOT NULL,
+  name        TEXT NOT NULL,
+  query       TEXT NOT NULL DEFAULT '',
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (owner, app, name)
+);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read for all" ON saved_views
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert for all" ON saved_views
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update for all" ON saved_views
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Allow delete for all" ON saved_views
+  FOR DELETE USING (true);
+
+-- ============================================================
+-- SLA escalations: one row per overdue request, level and recipient
+-- emailed by /api/cron/sla-escalation, so nobody is re-emailed daily
+-- but a reassigned request is escalated to its new assignee
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS sla_escalations (
+  id          UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name  TEXT NOT NULL,
+  record_id   UUID NOT NULL,
+  level       TEXT NOT NULL CHECK (level IN ('assignee', 'manager')),
+  recipient   TEXT NOT NULL,
+  sent_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (table_name, record_id, level, recipient)
+);
+
+ALTER TABLE sla_escalations DROP CONSTRAINT IF EXISTS sla_escalations_table_name_record_id_level_key;
+ALTER TABLE sla_escalations DROP CONSTRAINT IF EXISTS sla_escalations_table_name_record_id_level_recipient_key;
+ALTER TABLE sla_escalations ADD CONSTRAINT sla_escalations_table_name_record_id_level_recipient_key
+  UNIQUE (table_name, record_id, level, recipient);
+
+ALTER TABLE sla_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read for all" ON sla_escalations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert for all" ON sla_escalations
+  FOR INSERT WITH CHECK (true);
+
+-- ============================================================
+-- Email outbox: notifications queued by the API routes and sent
+-- by /api/cron/email-outbox with retries; 'dead' rows ran out of
+-- attempts and can be resent from the admin Email Outbox page
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind             TEXT NOT NULL,
+  to_address       TEXT NOT NULL,
+  subject          TEXT NOT NULL,
+  html             TEXT NOT NULL,
+  text             TEXT,
+  attachments      TEXT[] NOT NULL DEFAULT '{}',
+  status           TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'dead')),
+  attempts         INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error       TEXT,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at          TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox (status, next_attempt_at);
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read for all" ON email_outbox
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert for all" ON email_outbox
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update for all" ON email_outbox
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Allow delete for all" ON email_outbox
+  FOR DELETE USING (true);
+
+-- ============================================================
+-- Email templates: Admin overrides of a template's subject,
+-- heading and intro (see lib/email-templates.ts for the names
+-- and defaults); NULL columns use the default wording
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  name        TEXT PRIMARY KEY,
+  subject     TEXT,
+  heading     TEXT,
+  intro       TEXT,
+  updated_by  TEXT NOT NULL,
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read for all" ON email_templates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert for all" ON email_templates
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update for all" ON email_templates
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Allow delete for all" ON email_templates
+  FOR DELETE USING (true);
+
+-- ============================================================
+-- Tracker people: the distinct submitters and assignees/editors
+-- of a tracker (or its trash), for the Created By and Assign To
+-- dropdowns, so the list doesn't read every row to build them
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION tracker_people(p_table TEXT, p_trash BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (role TEXT, email TEXT)
+LANGUAGE plpgsql STABLE AS $$
+BEGIN
+  IF p_table NOT IN ('void_checks', 'interest_tracker', 'transfer_log') THEN
+    RAISE EXCEPTION 'Unknown tracker table: %', p_table;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT ''creator'', created_by FROM %1$I
+       WHERE (deleted_at IS NOT NULL) = $1
+     UNION
+     SELECT ''assignee'', lower(person) FROM %1$I, unnest(ARRAY[assigned_to, updated_by]) AS person
+       WHERE (deleted_at IS NOT NULL) = $1 AND person IS NOT NULL',
+    p_table
+  ) USING p_trash;
+END;
+$$;
+
+-- ============================================================
+-- Dashboard metrics: one tracker's totals (status counts,
+-- Pending aging, turnaround, weekly throughput since p_since
+-- and sign-offs per processor) aggregated in the database;
+-- lib/metrics.ts shapes them for /api/dashboard
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION tracker_metrics(
+  p_table     TEXT,
+  p_initial   TEXT,
+  p_sign_off  TEXT,
+  p_since     TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  IF p_table NOT IN ('void_checks', 'interest_tracker', 'transfer_log') THEN
+    RAISE EXCEPTION 'Unknown tracker table: %', p_table;
+  END IF;
+
+  EXECUTE format($sql$
+    WITH live AS (
+      SELECT completion_status, request_date, sign_off_date
+      FROM %1$I
+      WHERE deleted_at IS NULL
+    ),
+    signed_off AS (
+      -- sign_off_date is cleared when a request leaves sign-off, so these are current sign-offs
+      SELECT request_date, sign_off_date FROM live
+      WHERE completion_status = $2 AND sign_off_date IS NOT NULL
+    )
+    SELECT jsonb_build_object(
+      'statuses', (
+        SELECT COALESCE(jsonb_object_agg(completion_status, n), '{}')
+        FROM (SELECT completion_status, count(*) AS n FROM live GROUP BY completion_status) s
+      ),
+      'pending_aging', (
+        SELECT COALESCE(jsonb_object_agg(bucket, n), '{}')
+        FROM (
+          SELECT CASE
+                   WHEN age <= 7 THEN '0-7 days'
+                   WHEN age <= 30 THEN '8-30 days'
+                   WHEN age <= 60 THEN '31-60 days'
+                   ELSE '60+ days'
+                 END AS bucket,
+                 count(*) AS n
+          FROM (
+            SELECT floor(extract(epoch FROM now() - request_date) / 86400) AS age
+            FROM live
+            WHERE completion_status = $1 AND request_date <= now()
+          ) pending
+          GROUP BY 1
+        ) a
+      ),
+      'avg_days_to_sign_off', (
+        SELECT round((avg(extract(epoch FROM sign_off_date - request_date)) / 86400)::numeric, 1)
+        FROM signed_off
+      ),
+      'submitted', (
+        SELECT COALESCE(jsonb_object_agg(week, n), '{}')
+        FROM (
+          SELECT to_char(date_trunc('week', request_date AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS week, count(*) AS n
+          FROM live
+          WHERE request_date >= $3
+          GROUP BY 1
+        ) w
+      ),
+      'completed', (
+        SELECT COALESCE(jsonb_object_agg(week, n), '{}')
+        FROM (
+          SELECT to_char(date_trunc('week', sign_off_date AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS week, count(*) AS n
+          FROM signed_off
+          WHERE sign_off_date >= $3
+          GROUP BY 1
+        ) w
+      ),
+      'processors', (
+        SELECT COALESCE(jsonb_object_agg(processor, n), '{}')
+        FROM (
+          SELECT lower(actor) AS processor, count(*) AS n
+          FROM request_events
+          WHERE table_name = %1$L
+            AND action = 'updated'
+            AND changes->'completion_status'->>'to' = $2
+            AND created_at >= $3
+          GROUP BY 1
+        ) e
+      )
+    )
+  $sql$, p_table) INTO result USING p_initial, p_sign_off, p_since;
+
+  RETURN result;
+END;
+$$;